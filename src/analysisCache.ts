@@ -0,0 +1,167 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface CacheEntry {
+  hash : string; // sha1 of the file's content
+  dependencies : {
+    [filePath : string]: string | null
+  }; // files the analysis resolved names through -> their hash then, null when missing
+  sections : {
+    [section : string]: unknown
+  }; // e.g. summary
+}
+
+// Maps survive the JSON round trip as {$map: entries}
+const replaceMaps = (key : string, value : unknown) => value instanceof Map
+  ? {
+    $map: Array.from(value.entries())
+  }
+  : value;
+const reviveMaps = (key : string, value : any) => value && Array.isArray(value.$map)
+  ? new Map(value.$map)
+  : value;
+
+const copy = (value : unknown) : any => JSON.parse(JSON.stringify(value, replaceMaps), reviveMaps);
+
+interface CacheFile {
+  version : string;
+  entries : {
+    [filePath : string]: CacheEntry
+  };
+}
+
+// Per-file analysis results keyed by content hash, optionally persisted as JSON
+// so they survive reloads. Sections are stored and returned as copies, so later
+// phases can mutate what they restore
+export class AnalysisCache {
+  private entries = new Map < string,
+  CacheEntry > ();
+  private changed = false;
+
+  constructor(private readonly storagePath?: string, private readonly version : string = '') {
+    this.load();
+  }
+
+  static hash(code : string) : string {
+    return crypto
+      .createHash('sha1')
+      .update(code)
+      .digest('hex');
+  }
+
+  static hashFile(filePath : string) : string | null {
+    try {
+      return AnalysisCache.hash(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      return null; // deleted or unreadable
+    }
+  }
+
+  // Drops the entries of files that changed or disappeared, or whose dependencies
+  // did, including dependencies outside the analyzed files without entries of
+  // their own, and of every file depending on a dropped one directly or through
+  // other files. Returns the dropped paths
+  invalidate() : string[] {
+    const hashes = new Map < string,
+      string | null > ();
+    const currentHash = (filePath : string) => {
+      if (!hashes.has(filePath)) {
+        hashes.set(filePath, AnalysisCache.hashFile(filePath));
+      }
+      return hashes.get(filePath) as string | null;
+    };
+
+    const stale = new Set < string > ();
+    this
+      .entries
+      .forEach((entry, filePath) => {
+        if (currentHash(filePath) !== entry.hash || Object.entries(entry.dependencies).some(([dependency, hash]) => currentHash(dependency) !== hash)) {
+          stale.add(filePath);
+        }
+      });
+
+    const dependents = new Map < string,
+      string[] > ();
+    this
+      .entries
+      .forEach((entry, filePath) => {
+        Object
+          .keys(entry.dependencies)
+          .forEach(dependency => {
+            dependents.set(dependency, [
+              ...(dependents.get(dependency) || []),
+              filePath
+            ]);
+          });
+      });
+
+    const queue = Array.from(stale);
+    while (queue.length > 0) {
+      (dependents.get(queue.shift() as string) || []).forEach(dependent => {
+        if (!stale.has(dependent)) {
+          stale.add(dependent);
+          queue.push(dependent);
+        }
+      });
+    }
+
+    stale.forEach(filePath => this.entries.delete(filePath));
+    this.changed = this.changed || stale.size > 0;
+    return Array.from(stale);
+  }
+
+  get < T > (filePath : string, section : string, hash?: string) : T | undefined {
+    const entry = this
+      .entries
+      .get(filePath);
+    if (!entry || (hash !== undefined && entry.hash !== hash) || entry.sections[section] === undefined)
+      return undefined;
+    return copy(entry.sections[section]);
+  }
+
+  // Starts a new entry for a file that was just analyzed, recording the current
+  // content of its dependencies
+  set(filePath : string, hash : string, dependencies : string[], section : string, value : unknown) {
+    this
+      .entries
+      .set(filePath, {
+        hash,
+        dependencies: Object.fromEntries(dependencies.map(dependency => [dependency, AnalysisCache.hashFile(dependency)])),
+        sections: {
+          [section]: copy(value)
+        }
+      });
+    this.changed = true;
+  }
+
+  save() {
+    if (!this.storagePath || !this.changed)
+      return;
+    try {
+      const file : CacheFile = {
+        version: this.version,
+        entries: Object.fromEntries(this.entries)
+      };
+      fs.mkdirSync(path.dirname(this.storagePath), {recursive: true});
+      fs.writeFileSync(this.storagePath, JSON.stringify(file, replaceMaps));
+      this.changed = false;
+    } catch (error) {
+      console.error(`Error saving analysis cache: ${error}`);
+    }
+  }
+
+  private load() {
+    if (!this.storagePath || !fs.existsSync(this.storagePath))
+      return;
+    try {
+      const file : CacheFile = JSON.parse(fs.readFileSync(this.storagePath, 'utf-8'), reviveMaps);
+      // Results of another version of the analyzer may have a different shape
+      if (file.version === this.version) {
+        this.entries = new Map(Object.entries(file.entries));
+      }
+    } catch (error) {
+      console.error(`Error loading analysis cache: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import {parentPort, workerData} from 'worker_threads';
+import {ReactAnalyzer} from './reactAnalyzer';
+
+// Worker thread of the WorkerPool in ReactAnalyzer: parses each file path it is
+// sent into a FileSummary, off the extension host thread
+const analyzer = new ReactAnalyzer();
+analyzer.beginSummaries(workerData.rootPath);
+
+parentPort
+  ?.on('message', (filePath : string) => {
+    parentPort
+      ?.postMessage(analyzer.summarizeFile(filePath));
+  });
@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import {ReactAnalyzer, AnalyzerOptions, ConflictData} from './reactAnalyzer';
+import {AnalysisCache} from './analysisCache';
+
+// Runs the analysis outside VS Code, for CI and scripts:
+//
+//   react-visualizer [directory] [--config file] [--output file] [--fail-on severity]
+//
+// Writes the AnalysisResult as JSON and exits with 1 when a conflict at or above
+// the --fail-on severity is found, 2 when the analysis cannot run. Only depends
+// on Node, never on the vscode module
+
+type Severity = 'error' | 'warning' | 'info';
+
+const SEVERITY_ORDER : (Severity | 'none')[] = ['info', 'warning', 'error', 'none'];
+
+// Default severity of each conflict type, overridable in the config file
+const CONFLICT_SEVERITIES : {
+  [type in ConflictData['type']]: Severity
+} = {
+  'effect-loop': 'error',
+  'effect-cycle': 'error',
+  'missing-key': 'error',
+  'unserializable-prop': 'error',
+  'server-hook': 'error',
+  'missing-dependency': 'warning',
+  'effect-without-deps': 'warning',
+  'derived-state': 'warning',
+  'duplicated-state': 'warning',
+  'mirrored-state': 'warning',
+  'index-key': 'warning',
+  'store-prop': 'warning',
+  'server-state-copy': 'warning',
+  'prop-context': 'info',
+  'prop-drilling': 'info'
+};
+
+// Looked up in the analyzed directory when --config is not given
+const CONFIG_FILE = 'react-visualizer.config.json';
+
+interface CliConfig extends AnalyzerOptions {
+  output?: string; // file to write the JSON to, stdout when absent
+  failOn?: Severity | 'none'; // lowest conflict severity that fails the run
+  cache?: string; // file keeping per-file results between runs
+  severities?: {
+    [type : string]: Severity
+  };
+}
+
+const CONFIG_KEYS : (keyof CliConfig)[] = [
+  'propDrillingDepth',
+  'workers',
+  'typeChecker',
+  'output',
+  'failOn',
+  'cache',
+  'severities'
+];
+
+// Smallest values of the numeric options: a prop drilling chain needs at least
+// one forwarding component
+const MINIMUMS = {
+  propDrillingDepth: 1,
+  workers: 0
+};
+
+const USAGE = `Usage: react-visualizer [directory] [options]
+
+Options:
+  --config <file>               config file (default: ${CONFIG_FILE} in the directory)
+  --output <file>               write the analysis there instead of stdout
+  --fail-on <severity>          exit with 1 on conflicts of error, warning or info severity, or none
+  --prop-drilling-depth <n>     forwarding components that make a prop drilling conflict, at least 1
+  --workers <n>                 threads parsing files; 0 parses on the main thread
+  --type-checker                resolve names with the project's TypeScript program
+  --cache <file>                keep per-file results there between runs
+  --help                        show this message`;
+
+class UsageError extends Error {}
+
+// Command line options over the config file's, relative paths resolved from where
+// each is given
+function parseArguments(args : string[]) : {
+  directory: string;
+  configPath?: string;
+  config: CliConfig
+} {
+  const config : CliConfig = {};
+  let directory : string | undefined;
+  let configPath : string | undefined;
+
+  const value = (index : number) => {
+    const next = args[index + 1];
+    if (next === undefined || next.startsWith('--'))
+      throw new UsageError(`${args[index]} needs a value`);
+    return next;
+  };
+  const number = (index : number, minimum : number) => {
+    const text = value(index);
+    return wholeNumber(/^\d+$/.test(text)
+      ? Number(text)
+      : text, args[index], minimum);
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--config':
+        configPath = path.resolve(value(i++));
+        break;
+      case '--output':
+        config.output = path.resolve(value(i++));
+        break;
+      case '--fail-on':
+        config.failOn = severity(value(i++), '--fail-on');
+        break;
+      case '--prop-drilling-depth':
+        config.propDrillingDepth = number(i++, MINIMUMS.propDrillingDepth);
+        break;
+      case '--workers':
+        config.workers = number(i++, MINIMUMS.workers);
+        break;
+      case '--type-checker':
+        config.typeChecker = true;
+        break;
+      case '--cache':
+        config.cache = path.resolve(value(i++));
+        break;
+      default:
+        if (args[i].startsWith('--') || directory !== undefined)
+          throw new UsageError(`Unexpected argument ${args[i]}`);
+        directory = path.resolve(args[i]);
+    }
+  }
+
+  return {
+    directory: directory || process.cwd(),
+    configPath,
+    config
+  };
+}
+
+function severity(name : unknown, source : string) : Severity | 'none' {
+  if (typeof name !== 'string' || !SEVERITY_ORDER.includes(name as Severity))
+    throw new UsageError(`${source} must be one of ${SEVERITY_ORDER.join(', ')}, got ${name}`);
+  return name as Severity | 'none';
+}
+
+function wholeNumber(value : unknown, source : string, minimum : number) : number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < minimum)
+    throw new UsageError(`${source} needs a whole number${minimum > 0
+      ? ` of at least ${minimum}`
+      : ''}, got ${value}`);
+  return value;
+}
+
+function loadConfig(configPath : string, required : boolean) : CliConfig {
+  if (!fs.existsSync(configPath)) {
+    if (required)
+      throw new UsageError(`Config file ${configPath} not found`);
+    return {};
+  }
+
+  let config : CliConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read config file ${configPath}: ${error}`);
+  }
+  if (!config || typeof config !== 'object' || Array.isArray(config))
+    throw new UsageError(`Config file ${configPath} must hold an object`);
+
+  // Checked as strictly as the matching command line options
+  const unknownKey = Object
+    .keys(config)
+    .find(key => !CONFIG_KEYS.includes(key as keyof CliConfig));
+  if (unknownKey !== undefined)
+    throw new UsageError(`Unknown option ${unknownKey} in ${configPath}, expected one of ${CONFIG_KEYS.join(', ')}`);
+  (['propDrillingDepth', 'workers'] as const).forEach(key => {
+    if (config[key] !== undefined) {
+      wholeNumber(config[key], `${key} in ${configPath}`, MINIMUMS[key]);
+    }
+  });
+  if (config.typeChecker !== undefined && typeof config.typeChecker !== 'boolean')
+    throw new UsageError(`typeChecker in ${configPath} must be true or false, got ${config.typeChecker}`);
+  (['output', 'cache'] as const).forEach(key => {
+    if (config[key] !== undefined && typeof config[key] !== 'string')
+      throw new UsageError(`${key} in ${configPath} must be a file path, got ${config[key]}`);
+  });
+  if (config.failOn !== undefined) {
+    severity(config.failOn, `failOn in ${configPath}`);
+  }
+  if (config.severities !== undefined && (!config.severities || typeof config.severities !== 'object' || Array.isArray(config.severities)))
+    throw new UsageError(`severities in ${configPath} must map conflict types to severities`);
+  Object
+    .entries(config.severities || {})
+    .forEach(([type, name]) => {
+      if (!(type in CONFLICT_SEVERITIES))
+        throw new UsageError(`severities.${type} in ${configPath} is not a conflict type, expected one of ${Object.keys(CONFLICT_SEVERITIES).join(', ')}`);
+      if (severity(name, `severities.${type} in ${configPath}`) === 'none')
+        throw new UsageError(`severities.${type} in ${configPath} cannot be none`);
+    });
+
+  const baseDir = path.dirname(configPath);
+  return {
+    ...config,
+    output: config.output && path.resolve(baseDir, config.output),
+    cache: config.cache && path.resolve(baseDir, config.cache)
+  };
+}
+
+async function main(args : string[]) : Promise < number > {
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const {directory, configPath, config: cliConfig} = parseArguments(args);
+  if (!fs.existsSync(directory))
+    throw new UsageError(`${directory} does not exist`);
+  const defaultConfigDir = fs
+    .statSync(directory)
+    .isFile()
+    ? path.dirname(directory)
+    : directory;
+  const config : CliConfig = {
+    ...loadConfig(configPath || path.join(defaultConfigDir, CONFIG_FILE), !!configPath),
+    ...cliConfig
+  };
+
+  const version = JSON
+    .parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'))
+    .version;
+  const analyzer = new ReactAnalyzer(config.cache
+    ? new AnalysisCache(config.cache, version)
+    : undefined);
+  const result = await analyzer.analyzeReactProject(directory, {
+    propDrillingDepth: config.propDrillingDepth,
+    workers: config.workers,
+    typeChecker: config.typeChecker
+  });
+
+  const json = JSON.stringify(result, null, 2);
+  if (config.output) {
+    fs.mkdirSync(path.dirname(config.output), {recursive: true});
+    fs.writeFileSync(config.output, json);
+  } else {
+    process
+      .stdout
+      .write(json + '\n');
+  }
+
+  // The summary and failing conflicts go to stderr, out of the way of the JSON
+  const severityOf = (conflict : ConflictData) : Severity => config.severities
+    ?.[conflict.type] || CONFLICT_SEVERITIES[conflict.type];
+  const counts = SEVERITY_ORDER
+    .slice(0, 3)
+    .map(name => `${result.conflicts.filter(conflict => severityOf(conflict) === name).length} ${name}`);
+  console.error(`${result.components.length} components, ${result.flows.length} flows, ${result.conflicts.length} conflicts (${counts.join(', ')}), ${result.debug.parseErrors.length} parse errors`);
+
+  const threshold = SEVERITY_ORDER.indexOf(config.failOn || 'none');
+  const failing = result
+    .conflicts
+    .filter(conflict => SEVERITY_ORDER.indexOf(severityOf(conflict)) >= threshold);
+  failing.forEach(conflict => {
+    const location = conflict.range
+      ? `${path.relative(process.cwd(), conflict.range.filePath)}:${conflict.range.startLine}:${conflict.range.startColumn + 1}: `
+      : '';
+    console.error(`${location}${severityOf(conflict)} ${conflict.type}: ${conflict.description}`);
+  });
+  return failing.length > 0
+    ? 1
+    : 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+}, error => {
+  console.error(error instanceof UsageError
+    ? `${error.message}\n\n${USAGE}`
+    : `Analysis failed: ${error instanceof Error && error.stack || error}`);
+  process.exitCode = 2;
+});
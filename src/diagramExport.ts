@@ -0,0 +1,176 @@
+import {AnalysisResult, ComponentData, ComponentItem, DataFlow, RenderEdge} from './reactAnalyzer';
+
+// What the panel shows when exporting: ids of the components it draws, and
+// `${fromItem}->${toItem}` of the flows neither hidden nor dimmed by a selection
+export interface DiagramFilter {
+  components : string[];
+  flows : string[];
+}
+
+// The components, flows and render edges to export, with short node ids:
+// c0 for the first component, c0_1 for its second item
+interface DiagramGraph {
+  components : {
+    component: ComponentData;
+    nodeId: string
+  }[];
+  flows : {
+    flow: DataFlow;
+    from: string;
+    to: string
+  }[]; // from and to are item node ids
+  renderEdges : {
+    edge: RenderEdge;
+    parent: string;
+    child: string
+  }[]; // parent and child are component node ids
+  conflictItems : Set < string >; // item node ids involved in a conflict
+}
+
+export const flowKey = (flow : DataFlow) => `${flow.fromItem}->${flow.toItem}`;
+
+function diagramGraph(result : AnalysisResult, filter?: DiagramFilter) : DiagramGraph {
+  const visible = filter && new Set(filter.components);
+  const shownFlows = filter && new Set(filter.flows);
+  const components = result
+    .components
+    .filter(component => !visible || visible.has(component.id))
+    .map((component, index) => ({component, nodeId: `c${index}`}));
+
+  const componentNodes = new Map < string,
+    string > ();
+  const itemNodes = new Map < string,
+    string > ();
+  components.forEach(({component, nodeId}) => {
+    componentNodes.set(component.id, nodeId);
+    component
+      .items
+      .forEach((item, index) => itemNodes.set(item.id, `${nodeId}_${index}`));
+  });
+
+  const conflictItems = new Set < string > ();
+  result
+    .conflicts
+    .forEach(conflict => conflict.items.forEach(itemId => {
+      const node = itemNodes.get(itemId);
+      if (node) {
+        conflictItems.add(node);
+      }
+    }));
+
+  return {
+    components,
+    flows: result
+      .flows
+      .filter(flow => itemNodes.has(flow.fromItem) && itemNodes.has(flow.toItem) && (!shownFlows || shownFlows.has(flowKey(flow))))
+      .map(flow => ({
+        flow,
+        from: itemNodes.get(flow.fromItem) as string,
+        to: itemNodes.get(flow.toItem) as string
+      })),
+    renderEdges: result
+      .renderEdges
+      .filter(edge => edge.parent !== edge.child && componentNodes.has(edge.parent) && componentNodes.has(edge.child))
+      .map(edge => ({
+        edge,
+        parent: componentNodes.get(edge.parent) as string,
+        child: componentNodes.get(edge.child) as string
+      })),
+    conflictItems
+  };
+}
+
+const itemLabel = (item : ComponentItem) => `${item.name}: ${item.type}`;
+
+// Mermaid flowchart: a subgraph per component with a node per item, flows between
+// items, and dotted render edges between components
+export function toMermaid(result : AnalysisResult, filter?: DiagramFilter) : string {
+  const graph = diagramGraph(result, filter);
+  // Quoted labels only need their quotes and angle brackets escaped
+  const label = (text : string) => `"${text
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;')}"`;
+
+  const lines = ['flowchart LR'];
+  graph
+    .components
+    .forEach(({component, nodeId}) => {
+      if (component.items.length === 0) {
+        lines.push(`  ${nodeId}[${label(component.label)}]`);
+        return;
+      }
+      lines.push(`  subgraph ${nodeId} [${label(component.label)}]`, '    direction TB');
+      component
+        .items
+        .forEach((item, index) => lines.push(`    ${nodeId}_${index}[${label(itemLabel(item))}]`));
+      lines.push('  end');
+    });
+
+  graph
+    .renderEdges
+    .forEach(({edge, parent, child}) => {
+      lines.push(edge.boundary
+        ? `  ${parent} -.->|use client| ${child}`
+        : `  ${parent} -.-> ${child}`);
+    });
+  graph
+    .flows
+    .forEach(({flow, from, to}) => lines.push(`  ${from} -->|${flow.type}| ${to}`));
+
+  if (graph.conflictItems.size > 0) {
+    lines.push('  classDef conflict stroke:#ef4444,stroke-width:2px', `  class ${Array.from(graph.conflictItems).join(',')} conflict`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// GraphViz DOT graph: a record node per component with a port per item, flows
+// between ports, and dashed render edges between components. With rankdir=LR,
+// the fields of a record stack vertically: the title above its items
+export function toDot(result : AnalysisResult, filter?: DiagramFilter) : string {
+  const graph = diagramGraph(result, filter);
+  // Record fields treat braces, bars and angle brackets as structure
+  const field = (text : string) => text.replace(/([{}|<>"\\])/g, '\\$1');
+  const quote = (text : string) => `"${text.replace(/(["\\])/g, '\\$1')}"`;
+
+  const lines = [
+    'digraph ReactComponents {',
+    '  rankdir=LR;',
+    '  node [shape=record, fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9];'
+  ];
+  graph
+    .components
+    .forEach(({component, nodeId}) => {
+      const fields = [
+        field(component.label),
+        ...component
+          .items
+          .map((item, index) => `<i${index}> ${field(itemLabel(item))}`)
+      ];
+      const conflicted = component
+        .items
+        .some((item, index) => graph.conflictItems.has(`${nodeId}_${index}`));
+      lines.push(`  ${nodeId} [label="${fields.join('|')}"${conflicted
+        ? ', color="#ef4444"'
+        : ''}];`);
+    });
+
+  graph
+    .renderEdges
+    .forEach(({edge, parent, child}) => {
+      lines.push(`  ${parent} -> ${child} [style=dashed, color="${edge.boundary
+        ? '#e879f9'
+        : '#9ca3af'}"${edge.boundary
+          ? ', label="use client"'
+          : ''}];`);
+    });
+  // c0_1 -> c0:i1
+  const port = (itemNode : string) => itemNode.replace(/_(\d+)$/, ':i$1');
+  graph
+    .flows
+    .forEach(({flow, from, to}) => lines.push(`  ${port(from)} -> ${port(to)} [label=${quote(flow.type)}];`));
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
@@ -2,12 +2,16 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import {ReactAnalyzer} from './reactAnalyzer';
+import {AnalysisCache} from './analysisCache';
 import {VisualizerPanel} from './visualizerPanel';
+import {toMermaid, toDot} from './diagramExport';
 
 export function activate(context : vscode.ExtensionContext) {
   console.log('React Component Visualizer is now active!');
 
-  const analyzer = new ReactAnalyzer();
+  // Per-file results survive reloads in the workspace's storage
+  const storageUri = context.storageUri || context.globalStorageUri;
+  const analyzer = new ReactAnalyzer(new AnalysisCache(path.join(storageUri.fsPath, 'analysis-cache.json'), context.extension.packageJSON.version));
   let currentPanel : VisualizerPanel | undefined = undefined;
 
   // Command to show the diagram
@@ -43,12 +47,22 @@ export function activate(context : vscode.ExtensionContext) {
           : workspaceFolder.uri.fsPath;
         console.log('Analyzing path:', targetPath);
 
-        const analysisResult = await analyzer.analyzeReactProject(targetPath);
+        const settings = vscode
+          .workspace
+          .getConfiguration('reactVisualizer');
+        const analysisResult = await analyzer.analyzeReactProject(targetPath, {
+          propDrillingDepth: settings.get < number > ('propDrillingDepth'),
+          workers: settings.get < number | null > ('workers') ?? undefined,
+          typeChecker: settings.get < boolean > ('typeChecker')
+        });
 
         console.log('Analysis complete:', {
           components: analysisResult.components.length,
           flows: analysisResult.flows.length,
-          conflicts: analysisResult.conflicts.length
+          conflicts: analysisResult.conflicts.length,
+          orphans: analysisResult.orphans.length,
+          stores: analysisResult.stores.length,
+          timings: analysisResult.debug.timings
         });
 
         if (currentPanel) {
@@ -81,7 +95,7 @@ export function activate(context : vscode.ExtensionContext) {
       }
 
       const filePath = activeEditor.document.uri.fsPath;
-      if (!/\.(js|jsx|ts|tsx)$/.test(filePath)) {
+      if (!/\.(js|jsx|ts|tsx|mjs|cjs|mts|cts)$/.test(filePath)) {
         vscode
           .window
           .showErrorMessage('Please open a React file');
@@ -102,6 +116,74 @@ export function activate(context : vscode.ExtensionContext) {
         .executeCommand('reactVisualizer.showDiagram');
     });
 
+  // Command to export the diagram as shown, with the panel's filters applied
+  const exportDiagramCommand = vscode
+    .commands
+    .registerCommand('reactVisualizer.exportDiagram', async() => {
+      const result = currentPanel
+        ?.result;
+      if (!currentPanel || !result) {
+        vscode
+          .window
+          .showErrorMessage('Show the React component diagram before exporting it');
+        return;
+      }
+
+      const format = await vscode
+        .window
+        .showQuickPick([
+          {
+            label: 'Mermaid',
+            description: '.mmd',
+            extension: 'mmd'
+          }, {
+            label: 'GraphViz DOT',
+            description: '.dot',
+            extension: 'dot'
+          }, {
+            label: 'SVG',
+            description: '.svg',
+            extension: 'svg'
+          }
+        ], {placeHolder: 'Export the diagram as'});
+      if (!format)
+        return;
+
+      try {
+        const snapshot = await currentPanel.requestSnapshot();
+        const content = format.extension === 'mmd'
+          ? toMermaid(result, snapshot)
+          : format.extension === 'dot'
+            ? toDot(result, snapshot)
+            : snapshot.svg;
+
+        const workspaceFolder = vscode.workspace.workspaceFolders
+          ?.[0];
+        const target = await vscode
+          .window
+          .showSaveDialog({
+            defaultUri: workspaceFolder && vscode
+              .Uri
+              .joinPath(workspaceFolder.uri, `react-components.${format.extension}`),
+            filters: {
+              [format.label]: [format.extension]
+            }
+          });
+        if (!target)
+          return;
+
+        fs.writeFileSync(target.fsPath, content);
+        vscode
+          .window
+          .showInformationMessage(`Exported the diagram to ${path.basename(target.fsPath)}`);
+      } catch (error) {
+        console.error('Export error:', error);
+        vscode
+          .window
+          .showErrorMessage(`Error exporting the diagram: ${error}`);
+      }
+    });
+
   // Register file watcher for auto-refresh
   const config = vscode
     .workspace
@@ -109,13 +191,31 @@ export function activate(context : vscode.ExtensionContext) {
   if (config.get('autoRefresh')) {
     const watcher = vscode
       .workspace
-      .createFileSystemWatcher('**/*.{js,jsx,ts,tsx}');
+      .createFileSystemWatcher('**/*.{js,jsx,ts,tsx,mjs,cjs,mts,cts}');
+
+    // Changes during a refresh are merged into a single refresh once it finishes,
+    // which sees all of them
+    let refreshing = false;
+    let refreshQueued = false;
+    const refreshDiagram = async() => {
+      if (!currentPanel)
+        return;
+      if (refreshing) {
+        refreshQueued = true;
+        return;
+      }
 
-    const refreshDiagram = () => {
-      if (currentPanel) {
-        vscode
+      refreshing = true;
+      try {
+        await vscode
           .commands
           .executeCommand('reactVisualizer.showDiagram');
+      } finally {
+        refreshing = false;
+        if (refreshQueued) {
+          refreshQueued = false;
+          refreshDiagram();
+        }
       }
     };
 
@@ -142,7 +242,7 @@ export function activate(context : vscode.ExtensionContext) {
 
   context
     .subscriptions
-    .push(showDiagramCommand, analyzeCurrentCommand, analyzeWorkspaceCommand);
+    .push(showDiagramCommand, analyzeCurrentCommand, analyzeWorkspaceCommand, exportDiagramCommand);
 }
 
 export function deactivate() {}
\ No newline at end of file
@@ -0,0 +1,602 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Source extensions tried, in order, for extensionless specifiers
+export const SOURCE_EXTENSIONS = [
+  '.tsx',
+  '.ts',
+  '.mts',
+  '.cts',
+  '.jsx',
+  '.js',
+  '.mjs',
+  '.cjs'
+];
+
+// Conditions tried, in order, when reading package.json "exports"
+const EXPORT_CONDITIONS = ['source', 'import', 'module', 'default', 'require', 'node', 'browser'];
+
+interface CompilerPaths {
+  baseUrl?: string; // absolute
+  paths?: {
+    [pattern : string]: string[]
+  };
+  pathsBase?: string; // absolute directory that `paths` targets are relative to
+}
+
+interface PackageJson {
+  name?: string;
+  main?: string;
+  module?: string;
+  source?: string;
+  types?: string;
+  typings?: string;
+  exports?: any;
+  workspaces?: string[] | {
+    packages?: string[]
+  };
+}
+
+export class ImportResolver {
+  private resolutions = new Map < string,
+  string | null > ();
+  private compilerPaths = new Map < string,
+  CompilerPaths | null > (); // directory -> nearest tsconfig/jsconfig
+  private workspacePackages : Map < string,
+  string > | null = null; // package name -> package directory
+
+  constructor(private readonly rootPath : string, private readonly log : (message : string) => void = () => {}) {}
+
+  resolve(fromFile : string, specifier : string) : string | null {
+    const dir = path.dirname(fromFile);
+    const key = `${dir}\0${specifier}`;
+    if (this.resolutions.has(key)) {
+      return this
+        .resolutions
+        .get(key) as string | null;
+    }
+
+    let resolved : string | null = null;
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      resolved = this.resolveFile(path.resolve(dir, specifier));
+    } else {
+      // tsconfig/jsconfig "paths" and "baseUrl" first, then workspace packages
+      resolved = this.resolveWithCompilerPaths(dir, specifier) || this.resolveWorkspacePackage(specifier);
+    }
+
+    this
+      .resolutions
+      .set(key, resolved);
+    return resolved;
+  }
+
+  private resolveFile(candidate : string) : string | null {
+    const ext = path.extname(candidate);
+    if (ext && this.isFile(candidate)) {
+      return candidate;
+    }
+
+    // ESM-style TypeScript imports name the emitted file: './button.js' ->
+    // './button.ts'
+    if (['.js', '.jsx', '.mjs', '.cjs'].includes(ext)) {
+      const base = candidate.slice(0, -ext.length);
+      const sourceExts = ext === '.mjs'
+        ? ['.mts']
+        : ext === '.cjs'
+          ? ['.cts']
+          : ['.ts', '.tsx'];
+      for (const sourceExt of sourceExts) {
+        if (this.isFile(base + sourceExt)) {
+          return base + sourceExt;
+        }
+      }
+    }
+
+    for (const sourceExt of SOURCE_EXTENSIONS) {
+      if (this.isFile(candidate + sourceExt)) {
+        return candidate + sourceExt;
+      }
+    }
+
+    if (this.isDirectory(candidate)) {
+      // A local package directory with its own package.json
+      const pkg = this.readPackageJson(candidate);
+      if (pkg) {
+        const entry = this.resolvePackageEntry(candidate, pkg, '.');
+        if (entry)
+          return entry;
+        }
+
+      for (const sourceExt of SOURCE_EXTENSIONS) {
+        const indexPath = path.join(candidate, 'index' + sourceExt);
+        if (this.isFile(indexPath)) {
+          return indexPath;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private resolveWithCompilerPaths(dir : string, specifier : string) : string | null {
+    const config = this.findCompilerPaths(dir);
+    if (!config)
+      return null;
+
+    if (config.paths && config.pathsBase) {
+      // An exact match, else the longest matching prefix wins, as in TypeScript
+      let bestPattern : string | null = null;
+      let bestPrefixLength = -1;
+      let bestCapture = '';
+      Object
+        .keys(config.paths)
+        .forEach(pattern => {
+          const star = pattern.indexOf('*');
+          if (star < 0) {
+            if (pattern === specifier) {
+              bestPattern = pattern;
+              bestPrefixLength = Infinity;
+              bestCapture = '';
+            }
+            return;
+          }
+          const prefix = pattern.slice(0, star);
+          const suffix = pattern.slice(star + 1);
+          if (specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length && prefix.length > bestPrefixLength) {
+            bestPattern = pattern;
+            bestPrefixLength = prefix.length;
+            bestCapture = specifier.slice(prefix.length, specifier.length - suffix.length);
+          }
+        });
+
+      if (bestPattern) {
+        for (const target of config.paths[bestPattern]) {
+          const resolved = this.resolveFile(path.resolve(config.pathsBase, target.replace('*', bestCapture)));
+          if (resolved)
+            return resolved;
+          }
+        }
+    }
+
+    if (config.baseUrl) {
+      return this.resolveFile(path.resolve(config.baseUrl, specifier));
+    }
+
+    return null;
+  }
+
+  private findCompilerPaths(dir : string) : CompilerPaths | null {
+    if (this.compilerPaths.has(dir)) {
+      return this
+        .compilerPaths
+        .get(dir) as CompilerPaths | null;
+    }
+
+    let config : CompilerPaths | null = null;
+    for (const name of['tsconfig.json', 'jsconfig.json']) {
+      const configPath = path.join(dir, name);
+      if (this.isFile(configPath)) {
+        config = this.loadCompilerPaths(configPath, new Set());
+        break;
+      }
+    }
+
+    const parent = path.dirname(dir);
+    if (!config && parent !== dir) {
+      config = this.findCompilerPaths(parent);
+    }
+
+    this
+      .compilerPaths
+      .set(dir, config);
+    return config;
+  }
+
+  private loadCompilerPaths(configPath : string, seen : Set < string >) : CompilerPaths | null {
+    if(seen.has(configPath))
+      return null;
+    seen.add(configPath);
+
+    let json : any;
+    try {
+      json = parseJsonc(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error) {
+      this.log(`Error reading ${configPath}: ${error}`);
+      return null;
+    }
+
+    const configDir = path.dirname(configPath);
+    const result : CompilerPaths = {};
+
+    // Settings from "extends" apply first and are overridden by this file
+    const parents = Array.isArray(json.extends)
+      ? json.extends
+      : json.extends
+        ? [json.extends]
+        : [];
+    parents.forEach((parent : string) => {
+      const parentPath = this.resolveExtendsPath(configDir, parent);
+      const inherited = parentPath
+        ? this.loadCompilerPaths(parentPath, seen)
+        : null;
+      if (inherited) {
+        Object.assign(result, inherited);
+      } else {
+        this.log(`Could not resolve tsconfig extends "${parent}" from ${configPath}`);
+      }
+    });
+
+    const options = json.compilerOptions || {};
+    if (typeof options.baseUrl === 'string') {
+      result.baseUrl = path.resolve(configDir, options.baseUrl);
+      // Paths are relative to the effective baseUrl, including inherited paths
+      if (result.paths) {
+        result.pathsBase = result.baseUrl;
+      }
+    }
+    if (options.paths && typeof options.paths === 'object') {
+      result.paths = options.paths;
+      result.pathsBase = result.baseUrl || configDir;
+    }
+
+    return result;
+  }
+
+  private resolveExtendsPath(configDir : string, parent : string) : string | null {
+    const withJson = (candidate : string) => this.isFile(candidate)
+      ? candidate
+      : this.isFile(candidate + '.json')
+        ? candidate + '.json'
+        : this.isFile(path.join(candidate, 'tsconfig.json'))
+          ? path.join(candidate, 'tsconfig.json')
+          : null;
+
+    if (parent.startsWith('.') || path.isAbsolute(parent)) {
+      return withJson(path.resolve(configDir, parent));
+    }
+
+    // Shared configs from node_modules, e.g. "@acme/tsconfig/base.json"
+    let dir = configDir;
+    while (true) {
+      const found = withJson(path.join(dir, 'node_modules', parent));
+      if (found)
+        return found;
+      const next = path.dirname(dir);
+      if (next === dir)
+        break;
+      dir = next;
+    }
+
+    const {name, subpath} = splitPackageSpecifier(parent);
+    const packageDir = this
+      .getWorkspacePackages()
+      .get(name);
+    return packageDir
+      ? withJson(path.join(packageDir, subpath))
+      : null;
+  }
+
+  private resolveWorkspacePackage(specifier : string) : string | null {
+    const {name, subpath} = splitPackageSpecifier(specifier);
+    const packageDir = this
+      .getWorkspacePackages()
+      .get(name);
+    if (!packageDir)
+      return null;
+
+    const pkg = this.readPackageJson(packageDir);
+    if (pkg) {
+      const entry = this.resolvePackageEntry(packageDir, pkg, subpath
+        ? './' + subpath
+        : '.');
+      if (entry)
+        return entry;
+      }
+
+    return subpath
+      ? this.resolveFile(path.join(packageDir, subpath))
+      : null;
+  }
+
+  private resolvePackageEntry(packageDir : string, pkg : PackageJson, subpath : string) : string | null {
+    const candidates : string[] = [];
+
+    const exported = this.resolveExports(pkg.exports, subpath);
+    if (exported) {
+      candidates.push(exported);
+    }
+
+    if (subpath === '.') {
+      // Prefer source entry points over built output
+      [pkg.source, pkg.module, pkg.main].forEach(entry => {
+        if (typeof entry === 'string')
+          candidates.push(entry);
+        }
+      );
+      const types = pkg.types || pkg.typings;
+      if (typeof types === 'string' && !types.endsWith('.d.ts')) {
+        candidates.push(types);
+      }
+      candidates.push('./src/index', './index');
+    }
+
+    for (const candidate of candidates) {
+      const resolved = this.resolveFile(path.resolve(packageDir, candidate));
+      if (resolved)
+        return resolved;
+      }
+
+    return null;
+  }
+
+  private resolveExports(exportsField : any, subpath : string) : string | null {
+    if(!exportsField)
+      return null;
+
+    if (typeof exportsField === 'string' || Array.isArray(exportsField)) {
+      return subpath === '.'
+        ? this.pickExportTarget(exportsField)
+        : null;
+    }
+
+    const keys = Object.keys(exportsField);
+    if (!keys.some(key => key.startsWith('.'))) {
+      // Conditions only: {"import": "./index.mjs", "require": "./index.cjs"}
+      return subpath === '.'
+        ? this.pickExportTarget(exportsField)
+        : null;
+    }
+
+    if (exportsField[subpath] !== undefined) {
+      return this.pickExportTarget(exportsField[subpath]);
+    }
+
+    // Subpath patterns: {"./*": "./src/*.tsx"}
+    for (const key of keys) {
+      const star = key.indexOf('*');
+      if (star < 0)
+        continue;
+      const prefix = key.slice(0, star);
+      const suffix = key.slice(star + 1);
+      if (subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+        const capture = subpath.slice(prefix.length, subpath.length - suffix.length);
+        const target = this.pickExportTarget(exportsField[key]);
+        return target
+          ? target.replace(/\*/g, capture)
+          : null;
+      }
+    }
+
+    return null;
+  }
+
+  private pickExportTarget(target : any) : string | null {
+    if(typeof target === 'string')
+      return target;
+    if (Array.isArray(target)) {
+      for (const entry of target) {
+        const picked = this.pickExportTarget(entry);
+        if (picked)
+          return picked;
+        }
+      return null;
+    }
+    if (target && typeof target === 'object') {
+      for (const condition of EXPORT_CONDITIONS) {
+        if (target[condition] !== undefined) {
+          const picked = this.pickExportTarget(target[condition]);
+          if (picked)
+            return picked;
+          }
+        }
+    }
+    return null;
+  }
+
+  private getWorkspacePackages() : Map < string,
+  string > {
+    if(this.workspacePackages)
+      return this.workspacePackages;
+
+    const packages = new Map < string,
+      string > ();
+    this.workspacePackages = packages;
+
+    // Find the workspace root: the nearest ancestor declaring workspaces
+    let dir = this.rootPath;
+    while (true) {
+      const patterns = this.readWorkspacePatterns(dir);
+      if (patterns.length > 0) {
+        patterns.forEach(pattern => {
+          this
+            .expandWorkspacePattern(dir, pattern)
+            .forEach(packageDir => {
+              const pkg = this.readPackageJson(packageDir);
+              if (pkg && pkg.name) {
+                packages.set(pkg.name, packageDir);
+              }
+            });
+        });
+        this.log(`Found ${packages.size} workspace packages in ${dir}`);
+        break;
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir)
+        break;
+      dir = parent;
+    }
+
+    return packages;
+  }
+
+  private readWorkspacePatterns(dir : string) : string[] {
+    // npm and yarn: package.json "workspaces"
+    const pkg = this.readPackageJson(dir);
+    if (pkg && pkg.workspaces) {
+      const workspaces = Array.isArray(pkg.workspaces)
+        ? pkg.workspaces
+        : pkg.workspaces.packages || [];
+      if (workspaces.length > 0)
+        return workspaces;
+      }
+
+    // pnpm: pnpm-workspace.yaml "packages" list
+    const pnpmPath = path.join(dir, 'pnpm-workspace.yaml');
+    if (this.isFile(pnpmPath)) {
+      const patterns : string[] = [];
+      let inPackages = false;
+      fs
+        .readFileSync(pnpmPath, 'utf-8')
+        .split(/\r?\n/)
+        .forEach(line => {
+          if (/^packages\s*:/.test(line)) {
+            inPackages = true;
+          } else if (inPackages && /^\s*-\s*/.test(line)) {
+            const pattern = line
+              .replace(/^\s*-\s*/, '')
+              .replace(/\s+#.*$/, '')
+              .replace(/^['"]|['"]$/g, '')
+              .trim();
+            if (pattern && !pattern.startsWith('!')) {
+              patterns.push(pattern);
+            }
+          } else if (inPackages && /^\S/.test(line)) {
+            inPackages = false;
+          }
+        });
+      return patterns;
+    }
+
+    return [];
+  }
+
+  private expandWorkspacePattern(rootDir : string, pattern : string) : string[] {
+    // Supports exact directories, "packages/*" and "packages/**"
+    const segments = pattern
+      .replace(/\/$/, '')
+      .split('/');
+    let dirs = [rootDir];
+
+    segments.forEach(segment => {
+      const next : string[] = [];
+      dirs.forEach(dir => {
+        if (segment === '**') {
+          next.push(dir, ...this.listDirectories(dir, true));
+        } else if (segment === '*') {
+          next.push(...this.listDirectories(dir, false));
+        } else if (this.isDirectory(path.join(dir, segment))) {
+          next.push(path.join(dir, segment));
+        }
+      });
+      dirs = next;
+    });
+
+    return dirs.filter(dir => this.isFile(path.join(dir, 'package.json')));
+  }
+
+  private listDirectories(dir : string, recursive : boolean) : string[] {
+    const dirs : string[] = [];
+    try {
+      fs
+        .readdirSync(dir)
+        .forEach(entry => {
+          if (entry === 'node_modules' || entry.startsWith('.'))
+            return;
+          const fullPath = path.join(dir, entry);
+          if (this.isDirectory(fullPath)) {
+            dirs.push(fullPath);
+            if (recursive) {
+              dirs.push(...this.listDirectories(fullPath, true));
+            }
+          }
+        });
+    } catch (error) {
+      this.log(`Error reading directory ${dir}: ${error}`);
+    }
+    return dirs;
+  }
+
+  private readPackageJson(dir : string) : PackageJson | null {
+    const packagePath = path.join(dir, 'package.json');
+    if (!this.isFile(packagePath))
+      return null;
+    try {
+      return JSON.parse(fs.readFileSync(packagePath, 'utf-8'));
+    } catch (error) {
+      this.log(`Error reading ${packagePath}: ${error}`);
+      return null;
+    }
+  }
+
+  private isFile(filePath : string) : boolean {
+    try {
+      return fs
+        .statSync(filePath)
+        .isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  private isDirectory(dirPath : string) : boolean {
+    try {
+      return fs
+        .statSync(dirPath)
+        .isDirectory();
+    } catch {
+      return false;
+    }
+  }
+}
+
+// "@acme/ui/button" -> {name: "@acme/ui", subpath: "button"}
+function splitPackageSpecifier(specifier : string) : {
+  name: string;
+  subpath: string
+} {
+  const parts = specifier.split('/');
+  const nameLength = specifier.startsWith('@')
+    ? 2
+    : 1;
+  return {
+    name: parts
+      .slice(0, nameLength)
+      .join('/'),
+    subpath: parts
+      .slice(nameLength)
+      .join('/')
+  };
+}
+
+// tsconfig.json allows comments and trailing commas
+function parseJsonc(text : string) : any {
+  let output = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      output += char;
+      if (char === '\\') {
+        output += text[++i] || '';
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n')
+        i++;
+      output += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      i += 2;
+      while (i < text.length && !(text[i] === '*' && text[i + 1] === '/'))
+        i++;
+      i++;
+    } else {
+      output += char;
+    }
+  }
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
@@ -1,26 +1,84 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import {parse} from '@babel/parser';
 import traverse from '@babel/traverse';
 import * as t from '@babel/types';
+import {ImportResolver} from './importResolver';
+import {AnalysisCache} from './analysisCache';
+import {WorkerPool} from './workerPool';
+import {SymbolResolver} from './symbolResolver';
 
 export interface ComponentData {
   id : string;
   filePath : string;
   name : string;
+  label : string; // name, plus its folder when another component has the same name
   x : number;
   y : number;
   width : number;
   height : number;
+  kind : 'component' | 'hook' | 'store';
+  library?: StoreLibrary; // for stores
+  wrappers?: string[]; // outermost first, e.g. ['withAuth', 'memo']
+  environment?: 'server' | 'client'; // in projects using 'use client' directives
+  hookCalls?: {
+    name: string;
+    range?: SourceRange
+  }[]; // hooks called by a function component or custom hook, first call of each
   items : ComponentItem[];
+  hookReturns?: {
+    [key : string]: string
+  }; // returned key (or array index) -> internal identifier, for custom hooks
 }
 
 export interface ComponentItem {
   id : string;
   name : string;
-  type : 'state' | 'setter' | 'prop' | 'prop-function' | 'function' | 'context-provider' | 'context-consumer';
+  type : 'state' | 'setter' | 'prop' | 'prop-function' | 'function' | 'context-provider' | 'context-consumer' | 'hook-return' | 'hook-value' | 'effect' | 'memo' | 'store-slice' | 'store-action' | 'store-value' | 'store-dispatch' | 'server-state' | 'server-mutation';
   color : string;
   flowId : string;
+  hookName?: string;
+  hookKey?: string;
+  contextName?: string; // local name of the context object, e.g. AuthContext
+  contextId?: string; // stable identity of the createContext call, see ContextData
+  providedValue?: string; // source text of a Provider's value prop
+  updates?: string[]; // state keys written by a class component's setState call
+  valueType?: string;
+  optional?: boolean;
+  defaultValue?: string;
+  passThrough?: boolean; // prop only forwarded to child components, never read
+  restOf?: string; // rest element a forwarded prop was collected into, e.g. rest for ...rest
+  dependencies?: string[]; // entries of an effect, useMemo or useCallback dependency array
+  calls?: string[]; // identifiers called by an effect or local function
+  unguardedCalls?: string[]; // calls of a hook callback made outside any condition or early return
+  reads?: string[]; // outer names a hook callback reads, e.g. filter or props.page
+  initialReads?: string[]; // outer names a state's initial value reads, e.g. props.value
+  storeName?: string; // store hook or atom read through, e.g. useCartStore or countAtom
+  storeKey?: string; // slice or field selected from the store: state => state.todos -> todos
+  storeId?: string; // id of the store node, once resolved
+  dispatches?: string[]; // actions passed to a Redux dispatch, e.g. addTodo or todos/add
+  library?: StoreLibrary; // for server state, the library whose cache holds it
+  queryKey?: string; // cache key of server state: todos/* for ['todos', id], a URL or an operation name
+  invalidates?: string[]; // query keys a mutation invalidates or refetches
+  range?: SourceRange;
+}
+
+// 1-based lines and 0-based columns, as reported by the parser
+export interface SourceRange {
+  filePath : string;
+  startLine : number;
+  startColumn : number;
+  endLine : number;
+  endColumn : number;
+}
+
+export interface PropDefinition {
+  name : string;
+  valueType?: string;
+  optional : boolean;
+  defaultValue?: string;
+  restOf?: string; // rest element collecting a declared prop not destructured by name
 }
 
 export interface DataFlow {
@@ -32,71 +90,508 @@ export interface DataFlow {
 
 export interface ConflictData {
   id : string;
+  type : 'prop-context' | 'prop-drilling' | 'effect-loop' | 'effect-cycle' | 'missing-dependency' | 'effect-without-deps' | 'derived-state' | 'duplicated-state' | 'mirrored-state' | 'missing-key' | 'index-key' | 'store-prop' | 'server-state-copy' | 'unserializable-prop' | 'server-hook';
+  description : string;
+  items : string[]; // for prop drilling, the chain from the owning item to the final consumer
+  range?: SourceRange; // where to jump to from the conflicts list
+  owners?: string[]; // ids of the components owning the state involved
+  commonAncestor?: string; // id of the nearest component rendering all owners
+}
+
+export interface OrphanData {
+  id : string;
+  type : 'unread-state' | 'uncalled-setter' | 'unpassed-prop' | 'undeclared-prop' | 'unrendered-component';
   description : string;
-  items : string[];
+  componentId : string;
+  itemId?: string; // the orphaned item, when it has a row in the diagram
+  propName?: string; // for undeclared props, which have no item on the child
+}
+
+export interface ContextData {
+  id : string; // `${filePath}#${name}` of the createContext call, or the bare name when unresolved
+  name : string;
+  filePath?: string;
+  defaultValue?: string;
+  providers : string[]; // context-provider item ids
+  consumers : string[]; // context-consumer item ids
+}
+
+export interface RenderEdge {
+  id : string; // `${parent}->${child}`
+  parent : string; // component ids
+  child : string;
+  count : number; // JSX elements rendering the child within the parent
+  conditional : boolean; // every one of them is behind &&, ?:, if or switch
+  inList : boolean; // at least one is rendered per item of a .map
+  conditions : RenderCondition[];
+  lists : RenderList[];
+  boundary?: boolean; // a server component rendering a 'use client' component
+}
+
+export interface RenderCondition {
+  expression : string; // when the child renders: `show`, `!(loading)`, `tab === 'a'`
+  dependsOn : string[]; // ids of the state, props and values the expression reads
+  range?: SourceRange;
+}
+
+export interface RenderList {
+  source : string; // the mapped expression: `items`, `props.rows`
+  dependsOn : string[]; // ids of the items behind the source
+  key?: string; // key expression of the element returned per item, when it has one
+  keyIsIndex : boolean; // the key reads the index argument of the callback
+  range?: SourceRange; // the element returned per item
+}
+
+export type StoreLibrary = 'redux' | 'zustand' | 'jotai' | 'recoil' | 'react-query' | 'swr' | 'apollo';
+
+export interface StoreData {
+  id : string; // id of the store's node in components
+  name : string;
+  library : StoreLibrary;
+  filePath : string;
+  slices : string[]; // store-slice item ids: Redux slices, Zustand fields, atoms, query keys
+  actions : string[]; // store-action item ids: slice reducers, Zustand functions
+  readers : string[]; // component item ids selecting from the store
+  writers : string[]; // component item ids dispatching or setting
+}
+
+// A screen of the app: a React Router route, a Next.js pages/ file or an app/
+// directory page
+export interface RouteData {
+  id : string; // `${filePath}:${path}`
+  path : string; // as declared: /users/:id, /blog/[slug]
+  source : 'react-router' | 'next-pages' | 'next-app';
+  filePath : string; // file declaring the route, or the page file
+  component?: string; // id of the component rendered for the route, once resolved
+  layouts : string[]; // ids of the components wrapping it, outermost first: parent route elements, layout.tsx or _app
+  loading?: string; // id of the nearest loading.tsx component
+  parent?: string; // id of the route it is nested in
+  range?: SourceRange;
 }
 
 export interface AnalysisResult {
   components : ComponentData[];
   flows : DataFlow[];
+  renderEdges : RenderEdge[];
   conflicts : ConflictData[];
+  orphans : OrphanData[];
+  contexts : ContextData[];
+  stores : StoreData[];
+  routes : RouteData[];
   debug : DebugInfo;
 }
 
+export interface AnalyzerOptions {
+  propDrillingDepth?: number; // intermediate components that trigger a prop drilling conflict
+  workers?: number; // threads parsing files, by default one less than the CPUs; 0 parses on the calling thread
+  typeChecker?: boolean; // resolve names with the project's TypeScript program instead of matching them
+}
+
 export interface DebugInfo {
   filesAnalyzed : string[];
   componentsFound : string[];
   parseErrors : string[];
   analysisLog : string[];
+  timings : {
+    [phase : string]: number
+  }; // milliseconds spent in each phase of the analysis
+}
+
+// Per-file information used to resolve prop types declared in interfaces and
+// type aliases, possibly imported from other files
+interface FileScope {
+  filePath : string;
+  code : string;
+  typeDeclarations : Map < string,
+  t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration >;
+  imports : Map < string, {
+    importedName : string;
+    resolvedPath : string
+  } >;
+  defaultProps : Map < string,
+  Map < string,
+  string > >;
+  contexts : Map < string, {
+    defaultValue?: string
+  } >; // local name -> createContext declaration
+  stores : Map < string,
+  StoreDeclaration >; // local name -> store, slice or atom declaration
+  connections : Map < string,
+  StoreConnection >; // component name -> connect(mapStateToProps, mapDispatchToProps)
+  serverHooks : Map < string, {
+    library : StoreLibrary;
+    kind : 'query' | 'mutation'
+  } >; // local name -> imported query or mutation hook
+  operations : Map < string,
+  string >; // local name of a gql document -> operation name
+  defaultExport?: string; // identifier named by `export default X`
+  exportAll : string[]; // resolved sources of `export * from '...'`
+  directive?: 'client' | 'server'; // 'use client' or 'use server' at the top of the file
+  partial?: boolean; // restored from the cache: the file is parsed again to look up types
+}
+
+// A store, Redux slice or reducer map, or atom declared with a store library
+interface StoreDeclaration {
+  library : StoreLibrary;
+  kind : 'store' | 'slice' | 'reducers' | 'atom';
+  name : string; // slice name for createSlice, otherwise the local name
+  state : string[]; // Zustand fields, reducer keys, initialState keys of a slice
+  actions : string[]; // Zustand functions, case reducers of a slice
+}
+
+// Props a connect() call maps from the Redux store
+interface StoreConnection {
+  stateProps : Map < string,
+  string >; // prop -> selected slice
+  dispatchProps : Map < string,
+  string >; // prop -> dispatched action
+}
+
+// A wrapped component declared apart from the component it wraps, e.g.
+// `export default withRouter(Profile)` or `const Settings = lazy(() =>
+// import('./Settings'))`
+interface ComponentAlias {
+  filePath : string;
+  alias : string; // local name, or 'default' for a default export
+  target : string; // name of the wrapped component as seen from targetFile
+  targetFile : string;
+  wrappers : string[];
+}
+
+// What one parse of a file yields, linked with the other files' summaries
+// afterwards. Restored from the cache while neither the file nor the files it
+// imports have changed
+export interface FileSummary {
+  filePath : string;
+  hash : string;
+  complete : boolean; // parsed and traversed without errors
+  dependencies : string[]; // files whose changes can change this summary
+  components : ComponentData[];
+  references : [string, string[]][]; // componentId -> names read within the component
+  aliases : ComponentAlias[];
+  defaultExport?: string;
+  scope : FileScope | null; // without code and type declarations, see FileScope.partial
+  followed : [string, string][]; // name -> source, when only re-exports were found
+  jsx : FileJSXUsage;
+  routes : FileRoute[];
+  log : string[];
+  parseErrors : string[];
+}
+
+// Components a file renders and the props it passes. Parents and their items are
+// ids within the file; children are tag names, resolved through the file's
+// imports once every file is summarized
+interface FileJSXUsage {
+  usages : {
+    child: string;
+    props: string[];
+    spreadsProps: boolean
+  }[];
+  renders : {
+    parent: string;
+    enclosing: string[]; // component tags around the element, innermost first
+    child: string;
+    context: Pick < RenderEdge,
+    'conditional' | 'inList' | 'conditions' | 'lists' >
+  }[];
+  props : {
+    parent: string;
+    item?: string;
+    child: string;
+    propName: string;
+    value?: number; // offset of an identifier passed as the value, for the type checker
+    unserializable?: string; // what the value is when it cannot cross to a client component, e.g. function or Date
+    range?: SourceRange
+  }[];
+  spreads : {
+    parent: string;
+    child: string;
+    argument: t.Node
+  }[];
+}
+
+// A React Router route declared in a file, as a <Route> element or a route
+// object. Elements are tag names, resolved through the file's imports when linking
+interface FileRoute {
+  path : string; // joined with the paths of the routes it is nested in
+  element?: string; // component rendered for the route
+  layouts : string[]; // elements of the routes it is nested in, outermost first
+  parent?: string; // path of the nearest enclosing route
+  range?: SourceRange;
 }
 
+// Files each worker thread should have before parsing on worker threads pays off
+const FILES_PER_WORKER = 25;
+
+// Type references whose first type argument is the component's props type
+const COMPONENT_TYPE_NAMES = ['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent', 'ComponentType'];
+
+// Hooks whose callback runs after render, represented as 'effect' items
+const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect', 'useInsertionEffect'];
+
+// UI state that sibling components legitimately keep for themselves
+const LOCAL_STATE_NAMES = [
+  'open',
+  'isOpen',
+  'loading',
+  'isLoading',
+  'error',
+  'visible',
+  'isVisible',
+  'hovered',
+  'isHovered',
+  'focused',
+  'isFocused',
+  'expanded',
+  'isExpanded',
+  'mounted',
+  'isMounted'
+];
+
+// Props named like event handlers are callbacks even when never called directly
+const CALLBACK_PROP_PATTERN = /^on[A-Z]/;
+
+// Packages providing store factories and hooks, by import source
+const STORE_LIBRARIES : {
+  [source : string]: StoreLibrary
+} = {
+  'redux': 'redux',
+  '@reduxjs/toolkit': 'redux',
+  'react-redux': 'redux',
+  'zustand': 'zustand',
+  'jotai': 'jotai',
+  'recoil': 'recoil'
+};
+
+// Packages caching server state, by import source
+const SERVER_STATE_LIBRARIES : {
+  [source : string]: StoreLibrary
+} = {
+  '@tanstack/react-query': 'react-query',
+  'react-query': 'react-query',
+  'swr': 'swr',
+  'swr/infinite': 'swr',
+  'swr/immutable': 'swr',
+  'swr/mutation': 'swr',
+  '@apollo/client': 'apollo',
+  '@apollo/react-hooks': 'apollo'
+};
+
+// Hooks of those packages reading a cached query or running a mutation
+const SERVER_STATE_HOOKS : {
+  [name : string]: 'query' | 'mutation'
+} = {
+  useQuery: 'query',
+  useSuspenseQuery: 'query',
+  useInfiniteQuery: 'query',
+  useSuspenseInfiniteQuery: 'query',
+  useLazyQuery: 'query',
+  useSubscription: 'query',
+  useSWR: 'query',
+  useSWRInfinite: 'query',
+  useMutation: 'mutation',
+  useSWRMutation: 'mutation'
+};
+
+// Library hooks reading a store, writing to it, or both ([value, setValue])
+const STORE_HOOKS : {
+  [name : string]: 'read' | 'write' | 'read-write'
+} = {
+  useSelector: 'read',
+  useAppSelector: 'read',
+  useDispatch: 'write',
+  useAppDispatch: 'write',
+  useAtom: 'read-write',
+  useAtomValue: 'read',
+  useSetAtom: 'write',
+  useRecoilState: 'read-write',
+  useRecoilValue: 'read',
+  useSetRecoilState: 'write'
+};
+
+// Built-in hooks, which are never treated as custom hooks
+const REACT_HOOKS = [
+  'useState',
+  'useReducer',
+  'useContext',
+  'useEffect',
+  'useLayoutEffect',
+  'useInsertionEffect',
+  'useMemo',
+  'useCallback',
+  'useRef',
+  'useImperativeHandle',
+  'useDebugValue',
+  'useId',
+  'useTransition',
+  'useDeferredValue',
+  'useSyncExternalStore',
+  'useOptimistic',
+  'useActionState',
+  'useFormStatus'
+];
+
+// Hooks server components can call; every other hook needs a client component
+const SERVER_COMPONENT_HOOKS = ['use', 'useId', 'useMemo', 'useCallback', 'useDebugValue'];
+
+// React Router functions taking route objects: {path, element, children}
+const ROUTER_FACTORIES = ['createBrowserRouter', 'createHashRouter', 'createMemoryRouter', 'useRoutes'];
+
+// Elements wrapping a route's component without being one
+const ROUTE_WRAPPERS = ['Suspense', 'Fragment', 'StrictMode'];
+
+// Directories never scanned for React files
+const SKIPPED_DIRECTORIES = ['node_modules', '.git', '.next', 'media', 'out'];
+
+// Built-in classes whose instances can be passed from server to client components
+const SERIALIZABLE_CLASSES = ['Array', 'Map', 'Set', 'Promise'];
+
 export class ReactAnalyzer {
   private debugInfo : DebugInfo = {
     filesAnalyzed: [],
     componentsFound: [],
     parseErrors: [],
-    analysisLog: []
+    analysisLog: [],
+    timings: {}
   };
+  private fileScopes = new Map < string,
+  FileScope | null > ();
+  private componentAliases : ComponentAlias[] = [];
+  private componentIndex = new Map < string,
+  ComponentData > (); // `${filePath}#${name}` (or #default) -> ComponentData
+  private renderRelations : {
+    parent: ComponentData;
+    child: ComponentData
+  }[] = [];
+  private renderEdges = new Map < string,
+  RenderEdge > (); // `${parent}->${child}` -> RenderEdge
+  private defaultExports = new Map < string,
+  string > (); // filePath -> default exported component name
+  private renderUsages : {
+    child: ComponentData;
+    props: string[]; // attribute names, plus children when the element has any
+    spreadsProps: boolean // props unknown: {...spread} attributes, or the component passed as a value
+  }[] = [];
+  private componentReferences = new Map < string,
+  Set < string > > (); // componentId -> names read within the component
+  private storeIndex = new Map < string,
+  ComponentData > (); // `${filePath}#${name}` of a Zustand store or atom -> store node
+  private reduxStore : ComponentData | undefined;
+  private serverProps : {
+    parent: ComponentData;
+    child: ComponentData;
+    propName: string;
+    unserializable: string;
+    range?: SourceRange
+  }[] = []; // props passed from a server to a client component that cannot be serialized
+  private symbols : SymbolResolver | null = null; // with AnalyzerOptions.typeChecker
+  private rootPath = process.cwd();
+  private importResolver = new ImportResolver(this.rootPath);
+  private options : AnalyzerOptions = {};
+
+  private running : Promise < unknown > = Promise.resolve(); // the run in progress, if any
+
+  // Files are only parsed again when they, or files they import, change
+  constructor(private readonly cache?: AnalysisCache) {}
+
+  // Runs keep their state on the analyzer while they await worker threads, so a
+  // run only starts once the previous one has finished
+  analyzeReactProject(projectPath : string, options : AnalyzerOptions = {}) : Promise < AnalysisResult > {
+    const run = this
+      .running
+      .then(() => this.runAnalysis(projectPath, options));
+    this.running = run.catch(() => undefined);
+    return run;
+  }
 
-  async analyzeReactProject(projectPath : string) : Promise < AnalysisResult > {
+  private async runAnalysis(projectPath : string, options : AnalyzerOptions) : Promise < AnalysisResult > {
+    this.options = options;
     this.debugInfo = {
       filesAnalyzed: [],
       componentsFound: [],
       parseErrors: [],
-      analysisLog: []
+      analysisLog: [],
+      timings: {}
     };
+    this.fileScopes = new Map();
+    this.componentAliases = [];
+    this.componentIndex = new Map();
+    this.renderRelations = [];
+    this.renderEdges = new Map();
+    this.renderUsages = [];
+    this.componentReferences = new Map();
+    this.storeIndex = new Map();
+    this.reduxStore = undefined;
+    this.serverProps = [];
+    this.symbols = null;
+    this.defaultExports = new Map();
+    this.rootPath = fs.statSync(projectPath).isFile()
+      ? path.dirname(projectPath)
+      : projectPath;
+    this.importResolver = new ImportResolver(this.rootPath, message => this.debugInfo.analysisLog.push(message));
 
     this
       .debugInfo
       .analysisLog
       .push(`Starting analysis of: ${projectPath}`);
 
-    const reactFiles = await this.findReactFiles(projectPath);
+    const reactFiles = await this.timed('find files', () => this.findReactFiles(projectPath));
     this
       .debugInfo
       .analysisLog
       .push(`Found ${reactFiles.length} React files`);
 
-    const components: ComponentData[] = [];
-    const componentMap = new Map < string,
-      ComponentData > (); // componentName -> ComponentData
-
-    for (const filePath of reactFiles) {
+    if (this.cache) {
+      const stale = this
+        .cache
+        .invalidate();
       this
         .debugInfo
-        .filesAnalyzed
-        .push(filePath);
-      try {
+        .analysisLog
+        .push(`Cache: ${stale.length} changed or dependent files to analyze again`);
+    }
+
+    // Parse every file once, then the files re-export files lead to outside the
+    // project path
+    const summaries = await this.timed('parse', async() => {
+      const summarized = new Map < string,
+        FileSummary > ();
+      let files = reactFiles;
+      while (files.length > 0) {
+        (await this.summarizeFiles(files)).forEach(summary => summarized.set(summary.filePath, summary));
+        files = Array.from(new Set(Array.from(summarized.values()).flatMap(summary => summary.components.length === 0
+          ? summary.followed.map(([, source]) => source)
+          : []))).filter(source => !summarized.has(source) && fs.existsSync(source));
+      }
+      return summarized;
+    });
+
+    if (options.typeChecker) {
+      this.symbols = await this.timed('type checker', () => SymbolResolver.create(this.rootPath, message => this.debugInfo.analysisLog.push(message)));
+    }
+
+    const components: ComponentData[] = await this.timed('link', () => {
+      const linked: ComponentData[] = [];
+      for (const filePath of reactFiles) {
+        this
+          .debugInfo
+          .filesAnalyzed
+          .push(filePath);
         this
           .debugInfo
           .analysisLog
           .push(`Analyzing file: ${filePath}`);
-        const fileComponents = await this.analyzeFile(filePath);
-        components.push(...fileComponents);
+        // Files reached through re-exports may already have been analyzed
+        const fileComponents = this
+          .linkFile(summaries.get(filePath) as FileSummary, summaries)
+          .filter(comp => !this.componentIndex.has(comp.id));
+        linked.push(...fileComponents);
 
-        // Build component map for flow analysis
+        // Build component index for flow analysis
         fileComponents.forEach(comp => {
-          componentMap.set(comp.name, comp);
+          this
+            .componentIndex
+            .set(comp.id, comp);
         });
 
         fileComponents.forEach(comp => {
@@ -105,44 +600,122 @@ export class ReactAnalyzer {
             .componentsFound
             .push(`${comp.name} (${comp.items.length} items)`);
         });
-      } catch (error) {
-        const errorMsg = `Error analyzing ${filePath}: ${error}`;
-        this
-          .debugInfo
-          .parseErrors
-          .push(errorMsg);
-        console.error(errorMsg);
       }
-    }
 
+      this
+        .debugInfo
+        .analysisLog
+        .push(`Total components found: ${linked.length}`);
+
+      // Default exports can be imported under any local name
+      this
+        .defaultExports
+        .forEach((name, filePath) => {
+          const component = this
+            .componentIndex
+            .get(this.componentId(filePath, name));
+          if (component) {
+            this
+              .componentIndex
+              .set(this.componentId(filePath, 'default'), component);
+          }
+        });
+
+      // Attach wrappers and alias names declared apart from the wrapped component
+      this.resolveComponentAliases();
+      if (this.symbols) {
+        this.applyDeclaredProps(linked);
+      }
+      linked.push(...this.buildStores(linked));
+      this.classifyEnvironments(linked, reactFiles);
+      this.disambiguateLabels(linked);
+      return linked;
+    });
+
+    // Screens: React Router routes and Next.js pages, with their layouts
+    const routes = await this.timed('routes', () => this.buildRoutes(reactFiles, summaries));
     this
       .debugInfo
       .analysisLog
-      .push(`Total components found: ${components.length}`);
+      .push(`Found ${routes.length} routes`);
 
     // Analyze JSX usage to find actual prop flows
-    const flows = await this.analyzeJSXFlows(reactFiles, componentMap);
+    const flows = await this.timed('jsx flows', () => this.analyzeJSXFlows(reactFiles.map(filePath => summaries.get(filePath) as FileSummary)));
     this
       .debugInfo
       .analysisLog
       .push(`Generated ${flows.length} flows from JSX analysis`);
 
+    // Link store slices to the components selecting them, and dispatches back
+    const {stores, flows: storeFlows} = await this.timed('store flows', () => this.analyzeStoreFlows(components));
+    flows.push(...storeFlows);
+    this
+      .debugInfo
+      .analysisLog
+      .push(`Generated ${storeFlows.length} flows from ${stores.length} stores`);
+
+    // Link custom hooks to the components (and hooks) that call them
+    const hookFlows = await this.timed('hook flows', () => this.analyzeHookFlows(components));
+    flows.push(...hookFlows);
+    this
+      .debugInfo
+      .analysisLog
+      .push(`Generated ${hookFlows.length} flows from custom hook usage`);
+
+    // Link dependencies to the effects and memos reading them, and effects to the
+    // setters they call
+    const effectFlows = await this.timed('effect flows', () => this.analyzeEffectFlows(components));
+    flows.push(...effectFlows);
+    this
+      .debugInfo
+      .analysisLog
+      .push(`Generated ${effectFlows.length} flows from effects and memoized values`);
+
+    // Link context consumers to their nearest Provider in the render tree
+    const {contexts, flows: contextFlows} = await this.timed('context flows', () => this.analyzeContextFlows(components));
+    flows.push(...contextFlows);
+    this
+      .debugInfo
+      .analysisLog
+      .push(`Generated ${contextFlows.length} flows from ${contexts.length} contexts`);
+
     // Detect conflicts
-    const conflicts = this.detectConflicts(components, flows);
+    const conflicts = await this.timed('conflicts', () => this.detectConflicts(components, flows));
+    const orphans = await this.timed('orphans', () => this.detectOrphans(components));
+    this.dropRestPlaceholders(components);
+    const layout = await this.timed('layout', () => this.layoutComponents(components));
+    this
+      .cache
+      ?.save();
 
     return {
-      components: this.layoutComponents(components),
+      components: layout,
       flows,
+      renderEdges: Array.from(this.renderEdges.values()),
       conflicts,
+      orphans,
+      contexts,
+      stores,
+      routes,
       debug: this.debugInfo
     };
   }
 
+  // Records how long a phase of the analysis takes in DebugInfo.timings
+  private async timed < T > (phase : string, run : () => T | Promise < T >) : Promise < T > {
+    const start = Date.now();
+    try {
+      return await run();
+    } finally {
+      this.debugInfo.timings[phase] = Date.now() - start;
+    }
+  }
+
   private async findReactFiles(projectPath : string) : Promise < string[] > {
     const reactFiles: string[] = [];
 
     const scanDirectory = (dirPath : string) => {
-      if (dirPath.includes('node_modules') || dirPath.includes('.git') || dirPath.includes('.next') || dirPath.includes('media') || dirPath.includes('out')) 
+      if (SKIPPED_DIRECTORIES.includes(path.basename(dirPath))) 
         return;
       
       try {
@@ -154,7 +727,7 @@ export class ReactAnalyzer {
 
           if (stat.isDirectory()) {
             scanDirectory(fullPath);
-          } else if (/\.(jsx?|tsx?)$/.test(item)) {
+          } else if (/\.(jsx?|tsx?|mjs|cjs|mts|cts)$/.test(item)) {
             reactFiles.push(fullPath);
           }
         }
@@ -175,18 +748,33 @@ export class ReactAnalyzer {
     return reactFiles;
   }
 
-  private async analyzeFile(filePath : string) : Promise < ComponentData[] > {
-    const code = fs.readFileSync(filePath, 'utf-8');
+  // Parses a file once into everything later phases need from it: components,
+  // declarations and JSX usage. Runs on worker threads, so it only reads this
+  // file and, for imported types, the files it imports
+  summarizeFile(filePath : string) : FileSummary {
+    const logStart = this.debugInfo.analysisLog.length;
+    const errorStart = this.debugInfo.parseErrors.length;
     const components: ComponentData[] = [];
     const importedComponents: Map < string,
       string > = new Map(); // componentName -> sourceFile
-
-    this
-      .debugInfo
-      .analysisLog
-      .push(`Reading file: ${path.basename(filePath)} (${code.length} chars)`);
+    const aliasCount = this.componentAliases.length;
+    let code = '';
+    let jsx : FileJSXUsage = {
+      usages: [],
+      renders: [],
+      props: [],
+      spreads: []
+    };
+    let routes : FileRoute[] = [];
+    let complete = false;
 
     try {
+      code = fs.readFileSync(filePath, 'utf-8');
+      this
+        .debugInfo
+        .analysisLog
+        .push(`Reading file: ${path.basename(filePath)} (${code.length} chars)`);
+
       const ast = parse(code, {
         sourceType: 'module',
         plugins: ['jsx', 'typescript', 'decorators-legacy', 'classProperties']
@@ -197,6 +785,11 @@ export class ReactAnalyzer {
         .analysisLog
         .push(`Successfully parsed AST for ${path.basename(filePath)}`);
 
+      const scope = this.buildFileScope(ast, code, filePath);
+      this
+        .fileScopes
+        .set(filePath, scope);
+
       // First pass: collect imports
       traverse(ast, {
         ImportDeclaration: (path) => {
@@ -207,16 +800,14 @@ export class ReactAnalyzer {
             .forEach(spec => {
               if (t.isImportDefaultSpecifier(spec) || t.isImportSpecifier(spec)) {
                 const localName = spec.local.name;
-                // Resolve relative imports
-                if (source.startsWith('.')) {
-                  const resolvedPath = this.resolveImportPath(filePath, source);
-                  if (resolvedPath) {
-                    importedComponents.set(localName, resolvedPath);
-                    this
-                      .debugInfo
-                      .analysisLog
-                      .push(`  Import: ${localName} from ${source}`);
-                  }
+                // Resolve project imports (relative, aliased or workspace packages)
+                const resolvedPath = this.resolveImportPath(filePath, source);
+                if (resolvedPath) {
+                  importedComponents.set(localName, resolvedPath);
+                  this
+                    .debugInfo
+                    .analysisLog
+                    .push(`  Import: ${localName} from ${source}`);
                 }
               }
             });
@@ -236,23 +827,21 @@ export class ReactAnalyzer {
               .analysisLog
               .push(`Found re-export from: ${source}`);
 
-            if (source.startsWith('.')) {
-              const resolvedPath = this.resolveImportPath(filePath, source);
-              if (resolvedPath) {
-                path
-                  .node
-                  .specifiers
-                  .forEach(spec => {
-                    if (t.isExportSpecifier(spec) && t.isIdentifier(spec.exported)) {
-                      const exportedName = spec.exported.name;
-                      importedComponents.set(exportedName, resolvedPath);
-                      this
-                        .debugInfo
-                        .analysisLog
-                        .push(`  Re-export: ${exportedName} from ${source}`);
-                    }
-                  });
-              }
+            const resolvedPath = this.resolveImportPath(filePath, source);
+            if (resolvedPath) {
+              path
+                .node
+                .specifiers
+                .forEach(spec => {
+                  if (t.isExportSpecifier(spec) && t.isIdentifier(spec.exported)) {
+                    const exportedName = spec.exported.name;
+                    importedComponents.set(exportedName, resolvedPath);
+                    this
+                      .debugInfo
+                      .analysisLog
+                      .push(`  Re-export: ${exportedName} from ${source}`);
+                  }
+                });
             }
             return; // Don't process as a regular export
           }
@@ -270,12 +859,17 @@ export class ReactAnalyzer {
               .analysisLog
               .push(`Found exported function: ${name}`);
 
-            if (this.isReactComponent(declaration, name)) {
+            if (this.isCustomHook(name)) {
+              const hook = this.analyzeComponent(declaration, filePath, name, scope, 'hook');
+              if (hook) {
+                components.push(hook);
+              }
+            } else if (this.isReactComponent(declaration, name)) {
               this
                 .debugInfo
                 .analysisLog
                 .push(`✓ ${name} identified as exported React component`);
-              const component = this.analyzeComponent(declaration, filePath, name as string);
+              const component = this.analyzeComponent(declaration, filePath, name as string, scope);
               if (component) 
                 components.push(component);
               }
@@ -295,17 +889,27 @@ export class ReactAnalyzer {
                       .analysisLog
                       .push(`Found exported arrow/function: ${name}`);
 
-                    if (this.isReactComponent(declarator.init, name)) {
+                    if (this.isCustomHook(name)) {
+                      const hook = this.analyzeComponent(declarator, filePath, name, scope, 'hook');
+                      if (hook) {
+                        components.push(hook);
+                      }
+                    } else if (this.isReactComponent(declarator.init, name)) {
                       this
                         .debugInfo
                         .analysisLog
                         .push(`✓ ${name} identified as exported React component`);
-                      const component = this.analyzeComponent(declarator, filePath, name as string);
+                      const component = this.analyzeComponent(declarator, filePath, name as string, scope);
                       if (component) 
                         components.push(component);
                       }
+                    } else if (t.isCallExpression(declarator.init) && /^[A-Z]/.test(name)) {
+                    // export const Button = memo(...), forwardRef(...), lazy(...) or withX(...)
+                    const component = this.analyzeWrappedComponent(declarator.init, name, filePath, scope);
+                    if (component) 
+                      components.push(component);
                     }
-                }
+                  }
               });
           }
         },
@@ -326,12 +930,21 @@ export class ReactAnalyzer {
               .analysisLog
               .push(`Found default exported function: ${name}`);
 
-            if (this.isReactComponent(declaration, name)) {
+            this
+              .defaultExports
+              .set(filePath, name);
+
+            if (this.isCustomHook(name)) {
+              const hook = this.analyzeComponent(declaration, filePath, name, scope, 'hook');
+              if (hook) {
+                components.push(hook);
+              }
+            } else if (this.isReactComponent(declaration, name)) {
               this
                 .debugInfo
                 .analysisLog
                 .push(`✓ ${name} identified as default exported React component`);
-              const component = this.analyzeComponent(declaration, filePath, name as string);
+              const component = this.analyzeComponent(declaration, filePath, name as string, scope);
               if (component) 
                 components.push(component);
               }
@@ -341,13 +954,16 @@ export class ReactAnalyzer {
               .debugInfo
               .analysisLog
               .push(`Found default exported arrow/function`);
+            this
+              .defaultExports
+              .set(filePath, name);
 
             if (this.isReactComponent(declaration, name)) {
               this
                 .debugInfo
                 .analysisLog
                 .push(`✓ Default export identified as React component`);
-              const component = this.analyzeComponent(declaration, filePath, name as string);
+              const component = this.analyzeComponent(declaration, filePath, name as string, scope);
               if (component) 
                 components.push(component);
               }
@@ -356,7 +972,27 @@ export class ReactAnalyzer {
               .debugInfo
               .analysisLog
               .push(`Found default export of identifier: ${declaration.name}`);
+            this
+              .defaultExports
+              .set(filePath, declaration.name);
             // We'll catch this as a regular declaration
+          } else if (t.isClassDeclaration(declaration) && declaration.id) {
+            this
+              .defaultExports
+              .set(filePath, declaration.id.name);
+          } else if (t.isCallExpression(declaration)) {
+            // export default memo(Button) or export default withRouter(Profile)
+            this
+              .debugInfo
+              .analysisLog
+              .push(`Found default exported call expression`);
+            const component = this.analyzeWrappedComponent(declaration, undefined, filePath, scope);
+            if (component) {
+              components.push(component);
+              this
+                .defaultExports
+                .set(filePath, component.name);
+            }
           }
         },
 
@@ -374,12 +1010,17 @@ export class ReactAnalyzer {
             .analysisLog
             .push(`Found function declaration: ${name}`);
 
-          if (this.isReactComponent(path.node, name)) {
+          if (this.isCustomHook(name)) {
+            const hook = this.analyzeComponent(path.node, filePath, name as string, scope, 'hook');
+            if (hook) {
+              components.push(hook);
+            }
+          } else if (this.isReactComponent(path.node, name)) {
             this
               .debugInfo
               .analysisLog
               .push(`✓ ${name} identified as React component`);
-            const component = this.analyzeComponent(path.node, filePath, name as string);
+            const component = this.analyzeComponent(path.node, filePath, name as string, scope);
             if (component) {
               components.push(component);
             }
@@ -412,12 +1053,17 @@ export class ReactAnalyzer {
                 .analysisLog
                 .push(`Found arrow/function expression: ${name}`);
 
-              if (this.isReactComponent(path.node.init, name)) {
+              if (this.isCustomHook(name)) {
+                const hook = this.analyzeComponent(path.node, filePath, name, scope, 'hook');
+                if (hook) {
+                  components.push(hook);
+                }
+              } else if (this.isReactComponent(path.node.init, name)) {
                 this
                   .debugInfo
                   .analysisLog
                   .push(`✓ ${name} identified as React component`);
-                const component = this.analyzeComponent(path.node, filePath, name as string);
+                const component = this.analyzeComponent(path.node, filePath, name as string, scope);
                 if (component) {
                   components.push(component);
                 }
@@ -427,6 +1073,12 @@ export class ReactAnalyzer {
                   .analysisLog
                   .push(`✗ ${name} not identified as React component`);
               }
+            } else if (t.isCallExpression(path.node.init) && /^[A-Z]/.test(name)) {
+              // const Button = memo(...), forwardRef(...), lazy(...) or withX(...)
+              const component = this.analyzeWrappedComponent(path.node.init, name, filePath, scope);
+              if (component) {
+                components.push(component);
+              }
             }
           }
         },
@@ -448,7 +1100,7 @@ export class ReactAnalyzer {
               .debugInfo
               .analysisLog
               .push(`✓ ${name} identified as React class component`);
-            const component = this.analyzeClassComponent(path.node, filePath);
+            const component = this.analyzeClassComponent(path.node, filePath, scope);
             if (component) {
               components.push(component);
             }
@@ -461,6 +1113,14 @@ export class ReactAnalyzer {
         }
       });
 
+      // Third pass: the components each one renders and the props passed to them
+      jsx = this.collectJSXUsage(ast, filePath, code, components);
+      // Fourth pass, in router files only: the routes declared
+      if (/\bRoute\b|Router\(|useRoutes/.test(code)) {
+        routes = this.collectRoutes(ast, filePath, code);
+      }
+      complete = true;
+
     } catch (error) {
       const errorMsg = `Error parsing ${filePath}: ${error}`;
       this
@@ -475,30 +1135,180 @@ export class ReactAnalyzer {
       .analysisLog
       .push(`Found ${components.length} components in ${path.basename(filePath)}`);
 
+    const scope = this
+      .fileScopes
+      .get(filePath);
+    const aliases = this
+      .componentAliases
+      .slice(aliasCount);
+    const followed = components.length === 0
+      ? Array.from(importedComponents.entries())
+      : [];
+    // Files whose changes can change this file's summary
+    const dependencies = new Set([
+      ...Array
+        .from(scope
+          ?.imports.values() || [])
+        .map(imported => imported.resolvedPath),
+      ...(scope
+        ?.exportAll || []),
+      ...aliases.map(alias => alias.targetFile),
+      ...followed.map(([, source]) => source)
+    ]);
+    dependencies.delete(filePath);
+
+    return {
+      filePath,
+      hash: AnalysisCache.hash(code),
+      complete,
+      dependencies: Array.from(dependencies),
+      components,
+      references: components.map(component => [
+        component.id,
+        Array.from(this.componentReferences.get(component.id) || [])
+      ]),
+      aliases,
+      defaultExport: this
+        .defaultExports
+        .get(filePath),
+      scope: scope
+        ? {
+          ...scope,
+          code: '',
+          typeDeclarations: new Map(),
+          partial: true
+        }
+        : null,
+      followed,
+      jsx,
+      routes,
+      log: this
+        .debugInfo
+        .analysisLog
+        .slice(logStart),
+      parseErrors: this
+        .debugInfo
+        .parseErrors
+        .slice(errorStart)
+    };
+  }
+
+  // Prepares a fresh analyzer to summarize files of the project at rootPath
+  beginSummaries(rootPath : string) {
+    this.importResolver = new ImportResolver(rootPath, message => this.debugInfo.analysisLog.push(message));
+  }
+
+  // Summaries of the files, restored from the cache or parsed on worker threads
+  private async summarizeFiles(files : string[]) : Promise < FileSummary[] > {
+    const summaries = new Map < string,
+      FileSummary > ();
+    const toParse : string[] = [];
+    files.forEach(filePath => {
+      const hash = this.cache && AnalysisCache.hashFile(filePath);
+      const cached = hash
+        ? this
+          .cache
+          ?.get < FileSummary > (filePath, 'summary', hash)
+        : undefined;
+      if (cached) {
+        cached.log = [`Restored ${cached.components.length} components of ${path.basename(filePath)} from cache`];
+        summaries.set(filePath, cached);
+      } else {
+        toParse.push(filePath);
+      }
+    });
+
+    (await this.parseFiles(toParse)).forEach(summary => {
+      summaries.set(summary.filePath, summary);
+      if (summary.complete) {
+        this
+          .cache
+          ?.set(summary.filePath, summary.hash, summary.dependencies, 'summary', {
+            ...summary,
+            log: [],
+            parseErrors: []
+          });
+      }
+    });
+
+    return files.map(filePath => summaries.get(filePath) as FileSummary);
+  }
+
+  private async parseFiles(files : string[]) : Promise < FileSummary[] > {
+    const workers = Math.min(this.options.workers ?? Math.max(1, os.cpus().length - 1), Math.floor(files.length / FILES_PER_WORKER));
+    if (workers > 0) {
+      this
+        .debugInfo
+        .analysisLog
+        .push(`Parsing ${files.length} files on ${workers} worker threads`);
+      try {
+        return await new WorkerPool < string,
+        FileSummary > (path.join(__dirname, 'analysisWorker.js'), workers, {rootPath: this.rootPath}).run(files);
+      } catch (error) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Worker threads failed, parsing on this thread: ${error}`);
+      }
+    }
+
+    const summarizer = new ReactAnalyzer();
+    summarizer.beginSummaries(this.rootPath);
+    return files.map(filePath => summarizer.summarizeFile(filePath));
+  }
+
+  // Adds what a file declares to the project, and the components of the files a
+  // re-export file re-exports
+  private linkFile(summary : FileSummary, summaries : Map < string, FileSummary >) : ComponentData[] {
+    const filePath = summary.filePath;
+    this
+      .debugInfo
+      .analysisLog
+      .push(...summary.log);
+    this
+      .debugInfo
+      .parseErrors
+      .push(...summary.parseErrors);
+    if (summary.scope) {
+      this
+        .fileScopes
+        .set(filePath, summary.scope);
+    }
+    this
+      .componentAliases
+      .push(...summary.aliases);
+    if (summary.defaultExport) {
+      this
+        .defaultExports
+        .set(filePath, summary.defaultExport);
+    }
+    summary
+      .references
+      .forEach(([componentId, names]) => {
+        this
+          .componentReferences
+          .set(componentId, new Set(names));
+      });
+
+    const components = [...summary.components];
+
     // For re-export files, try to analyze the imported files
-    if (components.length === 0 && importedComponents.size > 0) {
+    if (components.length === 0 && summary.followed.length > 0) {
       this
         .debugInfo
         .analysisLog
-        .push(`File appears to be a re-export file with ${importedComponents.size} imports`);
+        .push(`File appears to be a re-export file with ${summary.followed.length} imports`);
 
       for (const [componentName,
-        sourcePath]of importedComponents.entries()) {
+        sourcePath]of summary.followed) {
         this
           .debugInfo
           .analysisLog
           .push(`  Following import: ${componentName} from ${sourcePath}`);
 
-        if (fs.existsSync(sourcePath) && !this.debugInfo.filesAnalyzed.includes(sourcePath)) {
-          try {
-            const importedComponents = await this.analyzeFile(sourcePath);
-            components.push(...importedComponents);
-          } catch (error) {
-            this
-              .debugInfo
-              .analysisLog
-              .push(`  Error analyzing imported file ${sourcePath}: ${error}`);
-          }
+        const source = summaries.get(sourcePath);
+        if (source && !this.debugInfo.filesAnalyzed.includes(sourcePath)) {
+          components.push(...this.linkFile(source, summaries));
         }
       }
     }
@@ -507,33 +1317,10 @@ export class ReactAnalyzer {
   }
 
   private resolveImportPath(fromFile : string, importPath : string) : string | null {
-    const dir = path.dirname(fromFile);
-    let resolved = path.resolve(dir, importPath);
-
-    // Try common extensions
-    const extensions = ['.tsx', '.ts', '.jsx', '.js'];
-
-    // If no extension, try adding one
-    if (!path.extname(resolved)) {
-      for (const ext of extensions) {
-        const withExt = resolved + ext;
-        if (fs.existsSync(withExt)) {
-          return withExt;
-        }
-      }
-
-      // Try index files
-      for (const ext of extensions) {
-        const indexPath = path.join(resolved, 'index' + ext);
-        if (fs.existsSync(indexPath)) {
-          return indexPath;
-        }
-      }
-    } else if (fs.existsSync(resolved)) {
-      return resolved;
-    }
-
-    return null;
+    // Relative paths, tsconfig/jsconfig `paths` and workspace packages; null for external modules
+    return this
+      .importResolver
+      .resolve(fromFile, importPath);
   }
 
   private isReactComponent(node : any, name?: string) : boolean {
@@ -681,51 +1468,808 @@ export class ReactAnalyzer {
     if(!node.superClass) 
       return false;
     
-    // Check for extends React.Component or extends Component
+    // Check for extends React.Component, Component, React.PureComponent or
+    // PureComponent
+    const baseClasses = ['Component', 'PureComponent'];
     if (t.isMemberExpression(node.superClass)) {
-      return t.isIdentifier(node.superClass.property) && node.superClass.property.name === 'Component';
+      return t.isIdentifier(node.superClass.property) && baseClasses.includes(node.superClass.property.name);
     }
 
     if (t.isIdentifier(node.superClass)) {
-      return node.superClass.name === 'Component';
+      return baseClasses.includes(node.superClass.name);
     }
 
     return false;
   }
 
-  private analyzeComponent(node : any, filePath : string, componentName : string) : ComponentData | null {
-    if(!componentName) 
+  private analyzeWrappedComponent(call : t.CallExpression, name : string | undefined, filePath : string, scope : FileScope) : ComponentData | null {
+    const {wrappers, target, lazySource} = this.unwrapComponentCall(call, filePath);
+    if (wrappers.length === 0) 
       return null;
     
-    const items: ComponentItem[] = [];
-    let itemCounter = 0;
-
-    this
+    const logWrapped = () => this
       .debugInfo
       .analysisLog
-      .push(`Analyzing component: ${componentName}`);
+      .push(`Found wrapped component ${name || 'default export'}: ${wrappers.join(' → ')}`);
+
+    // Inline component: memo(function Button() {...}) or forwardRef((props, ref) =>
+    // ...)
+    if (t.isArrowFunctionExpression(target) || t.isFunctionExpression(target)) {
+      const componentName = name || (t.isFunctionExpression(target) && target.id
+        ? target.id.name
+        : 'DefaultExport');
+      logWrapped();
+      if (!this.isReactComponent(target, componentName)) 
+        return null;
+      
+      this
+        .debugInfo
+        .analysisLog
+        .push(`✓ ${componentName} identified as wrapped React component`);
+      const component = this.analyzeComponent(target, filePath, componentName, scope);
+      if (component) {
+        component.wrappers = wrappers;
+      }
+      return component;
+    }
 
-    try {
-      traverse(node, {
-        CallExpression: (path) => {
-          const callee = path.node.callee;
+    // Wrapped reference: withAuth(withTheme(Profile))
+    if (t.isIdentifier(target) && /^[A-Z]/.test(target.name)) {
+      logWrapped();
+      this
+        .componentAliases
+        .push({
+          filePath,
+          alias: name || 'default',
+          target: target.name,
+          targetFile: filePath,
+          wrappers
+        });
+    } else if (lazySource) {
+      logWrapped();
+      this
+        .componentAliases
+        .push({
+          filePath,
+          alias: name || 'default',
+          target: 'default',
+          targetFile: lazySource,
+          wrappers
+        });
+    }
 
-          if (t.isIdentifier(callee)) {
-            // useState hook
-            if (callee.name === 'useState') {
-              this
-                .debugInfo
-                .analysisLog
-                .push(`Found useState in ${componentName}`);
+    return null;
+  }
 
-              const parent = path.parent;
-              if (t.isVariableDeclarator(parent) && t.isArrayPattern(parent.id)) {
-                const elements = parent.id.elements;
-                if (elements.length >= 2) {
-                  const stateName = t.isIdentifier(elements[0])
-                    ? elements[0].name
-                    : `state${itemCounter++}`;
-                  const setterName = t.isIdentifier(elements[1])
+  private unwrapComponentCall(call : t.CallExpression, filePath : string) : {
+    wrappers: string[];
+    target: t.Node | null;
+    lazySource?: string
+  } {
+    const wrappers : string[] = [];
+    let current : t.Node | null | undefined = call;
+
+    while (t.isCallExpression(current)) {
+      const wrapperName = this.getWrapperName(current.callee);
+      // Hook calls (useMemo, useCallback, ...) never produce components
+      if (!wrapperName || /^use[A-Z]/.test(wrapperName)) {
+        return {wrappers: [], target: null};
+      }
+      wrappers.push(wrapperName);
+
+      const argument : t.Node | undefined = current.arguments[0];
+      if (wrapperName === 'lazy') {
+        // lazy(() => import('./Settings'))
+        const source = this.findDynamicImport(argument);
+        const resolvedPath = source
+          ? this.resolveImportPath(filePath, source)
+          : null;
+        return {
+          wrappers,
+          target: null,
+          lazySource: resolvedPath || undefined
+        };
+      }
+      current = argument;
+    }
+
+    return {
+      wrappers,
+      target: current || null
+    };
+  }
+
+  // React.useEffect -> useEffect, for files importing React as a namespace
+  private hookCallee(callee : t.Expression | t.V8IntrinsicIdentifier) : t.Expression | t.V8IntrinsicIdentifier {
+    return t.isMemberExpression(callee) && t.isIdentifier(callee.object, {name: 'React'}) && t.isIdentifier(callee.property) && !callee.computed && REACT_HOOKS.includes(callee.property.name)
+      ? callee.property
+      : callee;
+  }
+
+  private getWrapperName(callee : t.Node) : string | null {
+    if(t.isIdentifier(callee)) 
+      return callee.name;
+    // React.memo -> memo
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) 
+      return callee.property.name;
+    // connect(mapStateToProps)(Component) -> connect
+    if (t.isCallExpression(callee)) 
+      return this.getWrapperName(callee.callee);
+    return null;
+  }
+
+  private findDynamicImport(node : any) : string | null {
+    if(!node || typeof node !== 'object') 
+      return null;
+    if (t.isCallExpression(node) && t.isImport(node.callee) && t.isStringLiteral(node.arguments[0])) {
+      return node.arguments[0].value;
+    }
+    for (const key in node) {
+      if (key === 'loc' || key === 'start' || key === 'end') 
+        continue;
+      const value = node[key];
+      const children = Array.isArray(value)
+        ? value
+        : [value];
+      for (const child of children) {
+        if (child && typeof child === 'object') {
+          const found = this.findDynamicImport(child);
+          if (found) 
+            return found;
+        }
+      }
+    }
+    return null;
+  }
+
+  private resolveComponentAliases() {
+    this
+      .componentAliases
+      .forEach(alias => {
+        const target = this.findComponent(alias.targetFile, alias.target);
+        if (!target) {
+          this
+            .debugInfo
+            .analysisLog
+            .push(`  Could not resolve wrapped component ${alias.alias} (${alias.target} in ${path.basename(alias.targetFile)})`);
+          return;
+        }
+
+        const existing = target.wrappers || [];
+        target.wrappers = [
+          ...alias.wrappers.filter(wrapper => !existing.includes(wrapper)),
+          ...existing
+        ];
+        const aliasId = this.componentId(alias.filePath, alias.alias);
+        if (!this.componentIndex.has(aliasId)) {
+          this
+            .componentIndex
+            .set(aliasId, target);
+        }
+
+        this
+          .debugInfo
+          .analysisLog
+          .push(`  ${alias.alias} wraps ${target.name} with ${alias.wrappers.join(' → ')}`);
+      });
+  }
+
+  private componentId(filePath : string, name : string) : string {
+    return `${filePath}#${name}`;
+  }
+
+  private resolveComponent(filePath : string, name : string, depth : number) : ComponentData | undefined {
+    const direct = this
+      .componentIndex
+      .get(this.componentId(filePath, name));
+    if (direct || depth > 10) 
+      return direct;
+    
+    const scope = this.loadFileScope(filePath);
+    if (!scope) 
+      return undefined;
+    
+    if (name === 'default' && scope.defaultExport) {
+      return this.resolveComponent(filePath, scope.defaultExport, depth + 1);
+    }
+
+    // Follow imports and re-exports (including barrel files) to the definition
+    const imported = scope
+      .imports
+      .get(name);
+    if (imported) {
+      return this.resolveComponent(imported.resolvedPath, imported.importedName, depth + 1);
+    }
+    for (const source of scope.exportAll) {
+      const found = this.resolveComponent(source, name, depth + 1);
+      if (found) 
+        return found;
+    }
+
+    return undefined;
+  }
+
+  private findComponent(filePath : string, name : string) : ComponentData | undefined {
+    // The type checker follows aliases and re-exports the file scopes miss
+    const declared = this
+      .symbols
+      ?.resolveExport(filePath, name);
+    const checked = declared && this.resolveComponent(declared.filePath, declared.name, 0);
+    if (checked) 
+      return checked;
+    
+    const resolved = this.resolveComponent(filePath, name, 0);
+    if (resolved) 
+      return resolved;
+    
+    // Unresolvable import (e.g. a path alias): fall back to the name when it is
+    // unambiguous
+    const byName = Array
+      .from(new Set(this.componentIndex.values()))
+      .filter(component => component.name === name);
+    return byName.length === 1
+      ? byName[0]
+      : undefined;
+  }
+
+  private disambiguateLabels(components : ComponentData[]) {
+    const byName = new Map < string,
+      ComponentData[] > ();
+    components.forEach(component => {
+      byName.set(component.name, [
+        ...(byName.get(component.name) || []),
+        component
+      ]);
+    });
+
+    byName.forEach(group => {
+      if (group.length < 2) 
+        return;
+      
+      // Use the shortest folder suffix that tells the components apart, e.g.
+      // Header (admin/)
+      const segments = group.map(component => path.dirname(component.filePath).split(path.sep).filter(Boolean));
+      const maxDepth = Math.max(...segments.map(s => s.length));
+      let labels : string[] = group.map(component => `${component.name} (${path.basename(component.filePath)})`);
+      for (let depth = 1; depth <= maxDepth; depth++) {
+        const candidates = segments.map(s => s.slice(-depth).join('/') + '/');
+        if (new Set(candidates).size === candidates.length) {
+          labels = group.map((component, index) => `${component.name} (${candidates[index]})`);
+          break;
+        }
+      }
+
+      group.forEach((component, index) => {
+        component.label = labels[index];
+        component.width = Math.min(420, Math.max(component.width, component.label.length * 8 + 40));
+      });
+    });
+  }
+
+  // Prop types from each component's signature as the type checker sees it,
+  // including props of mapped or library types the file scopes cannot resolve
+  private applyDeclaredProps(components : ComponentData[]) {
+    components
+      .filter(component => component.kind === 'component' && /\.(tsx?|mts|cts)$/.test(component.filePath))
+      .forEach(component => {
+        const declared = this
+          .symbols
+          ?.propTypes(component.filePath, component.name);
+        if (!declared)
+          return;
+
+        const props = component
+          .items
+          .filter(item => item.type === 'prop' || item.type === 'prop-function');
+        const missing = declared.filter(prop => {
+          const existing = props.find(item => item.name === prop.name);
+          if (existing) {
+            existing.valueType = prop.valueType;
+            existing.optional = prop.optional || existing.defaultValue !== undefined;
+          }
+          return !existing;
+        });
+        if (missing.length === 0)
+          return;
+
+        // Props not destructured by name are collected into the rest element, if any
+        const rest = props.find(item => item.name.startsWith('...'));
+        const items = this.propItems(component.id, missing.map(prop => ({
+          ...prop,
+          restOf: rest && rest
+            .name
+            .slice(3)
+        })));
+        if (rest && rest.passThrough) {
+          items.forEach(item => {
+            item.passThrough = true;
+          });
+        }
+        this.markCallbackProps(null, items);
+        const insertIndex = props.length > 0
+          ? component
+            .items
+            .indexOf(props[props.length - 1]) + 1
+          : component.items.length;
+        component
+          .items
+          .splice(insertIndex, 0, ...items);
+        component.width = Math.max(component.width, this.componentWidth(component.name, component.items));
+        component.height = Math.max(100, component.items.length * 18 + 60);
+        this
+          .debugInfo
+          .analysisLog
+          .push(`  Type checker: ${component.name} declares ${missing.map(prop => prop.name).join(', ')}`);
+      });
+  }
+
+  // Server and client components: components of 'use client' files, and of the
+  // files those import directly or not, run on the client; components of a
+  // Next.js app/ folder, and of the files it imports, render on the server. Others,
+  // such as pages/ or React Router screens, stay unclassified
+  private classifyEnvironments(components : ComponentData[], reactFiles : string[]) {
+    const scopes = Array
+      .from(this.fileScopes.values())
+      .filter((scope) : scope is FileScope => !!scope);
+    const appDirs = this
+      .nextProjectDirs(reactFiles)
+      .map(projectDir => this.appRouterDir(projectDir))
+      .filter((appDir) : appDir is string => !!appDir);
+    if (appDirs.length === 0 && !scopes.some(scope => scope.directive)) 
+      return;
+
+    // Files reached from the starting files through imports and re-exports,
+    // except those the follow check rejects
+    const reachable = (starts : string[], follow : (scope : FileScope) => boolean) => {
+      const reached = new Set < string > ();
+      const queue = [...starts];
+      while (queue.length > 0) {
+        const filePath = queue.shift() as string;
+        if (reached.has(filePath) || !/\.[cm]?[jt]sx?$/.test(filePath)) 
+          continue;
+        const scope = this.loadFileScope(filePath);
+        if (!scope || !follow(scope)) 
+          continue;
+        reached.add(filePath);
+        queue.push(...Array.from(scope.imports.values()).map(imported => imported.resolvedPath), ...scope.exportAll);
+      }
+      return reached;
+    };
+
+    // Server actions imported by client components stay on the server
+    const clientFiles = reachable(scopes.filter(scope => scope.directive === 'client').map(scope => scope.filePath), scope => scope.directive !== 'server');
+    // Client files are where server rendering stops
+    const serverFiles = reachable(reactFiles.filter(filePath => appDirs.some(appDir => filePath.startsWith(appDir + path.sep))), scope => scope.directive !== 'client');
+
+    components
+      .filter(component => component.kind === 'component')
+      .forEach(component => {
+        if (clientFiles.has(component.filePath)) {
+          component.environment = 'client';
+        } else if (serverFiles.has(component.filePath)) {
+          component.environment = 'server';
+        }
+      });
+    this
+      .debugInfo
+      .analysisLog
+      .push(`Server components: ${components.filter(component => component.environment === 'server').length}, client files: ${clientFiles.size}`);
+  }
+
+  // A server component rendering a component of a 'use client' file, whose props
+  // are serialized on the way
+  private crossesToClient(parent : ComponentData, child : ComponentData) : boolean {
+    return parent.environment === 'server' && this
+      .loadFileScope(child.filePath)
+      ?.directive === 'client';
+  }
+
+  // Routes of the project: the React Router routes each file declares, then the
+  // pages of Next.js apps
+  private buildRoutes(reactFiles : string[], summaries : Map < string, FileSummary >) : RouteData[] {
+    const routes = new Map < string,
+      RouteData > ();
+    const componentOf = (filePath : string, name : string | undefined) => name
+      ? this
+        .findComponent(filePath, name)
+        ?.id
+      : undefined;
+
+    reactFiles.forEach(filePath => {
+      (summaries.get(filePath)
+        ?.routes || []).forEach(route => {
+        const id = `${filePath}:${route.path}`;
+        if (routes.has(id)) 
+          return;
+        routes.set(id, {
+          id,
+          path: route.path,
+          source: 'react-router',
+          filePath,
+          component: componentOf(filePath, route.element),
+          layouts: route
+            .layouts
+            .map(tag => componentOf(filePath, tag))
+            .filter((layout) : layout is string => !!layout),
+          parent: route.parent !== undefined
+            ? `${filePath}:${route.parent}`
+            : undefined,
+          range: route.range
+        });
+      });
+    });
+    this
+      .nextRoutes(reactFiles)
+      .forEach(route => routes.set(route.id, route));
+
+    return Array.from(routes.values());
+  }
+
+  // Next.js routes from file conventions: files of pages/ other than _app,
+  // _document and api/, wrapped in _app, and page files of app/, wrapped in the
+  // layout files of their folders and shown with the nearest loading file.
+  // (group) and @slot folders add no segment; [id] and [...slug] stay as they are
+  private nextRoutes(reactFiles : string[]) : RouteData[] {
+    const routes : RouteData[] = [];
+    // folder/name without extension -> file, e.g. app/blog/layout -> app/blog/layout.tsx
+    const conventions = new Map < string,
+      string > ();
+    reactFiles.forEach(filePath => conventions.set(path.join(path.dirname(filePath), path.parse(filePath).name), filePath));
+    const defaultComponent = (filePath : string | undefined) => filePath
+      ? this
+        .componentIndex
+        .get(this.componentId(filePath, 'default'))
+        ?.id
+      : undefined;
+    const isDefined = (id : string | undefined) : id is string => !!id;
+
+    this
+      .nextProjectDirs(reactFiles)
+      .forEach(projectDir => {
+        const pagesDir = [path.join(projectDir, 'pages'), path.join(projectDir, 'src', 'pages')].find(dir => fs.existsSync(dir));
+        if (pagesDir) {
+          const app = defaultComponent(conventions.get(path.join(pagesDir, '_app')));
+          reactFiles
+            .filter(filePath => filePath.startsWith(pagesDir + path.sep))
+            .forEach(filePath => {
+              const segments = path
+                .relative(pagesDir, filePath)
+                .replace(/\.[^.]+$/, '')
+                .split(path.sep);
+              if (segments[0] === 'api' || segments[segments.length - 1].startsWith('_')) 
+                return;
+              if (segments[segments.length - 1] === 'index') {
+                segments.pop();
+              }
+              const routePath = `/${segments.join('/')}`;
+              routes.push({
+                id: `${filePath}:${routePath}`,
+                path: routePath,
+                source: 'next-pages',
+                filePath,
+                component: defaultComponent(filePath),
+                layouts: [app].filter(isDefined)
+              });
+            });
+        }
+
+        const appDir = this.appRouterDir(projectDir);
+        if (appDir) {
+          reactFiles
+            .filter(filePath => filePath.startsWith(appDir + path.sep) && path.parse(filePath).name === 'page')
+            .forEach(filePath => {
+              const folders = path
+                .relative(appDir, path.dirname(filePath))
+                .split(path.sep)
+                .filter(folder => folder !== '');
+              const routePath = `/${folders
+                .filter(folder => !/^\(.*\)$/.test(folder) && !folder.startsWith('@'))
+                .join('/')}`;
+              // The app folder, then each folder down to the page's
+              const dirs = [
+                appDir,
+                ...folders.map((folder, index) => path.join(appDir, ...folders.slice(0, index + 1)))
+              ];
+              routes.push({
+                id: `${filePath}:${routePath}`,
+                path: routePath,
+                source: 'next-app',
+                filePath,
+                component: defaultComponent(filePath),
+                layouts: dirs
+                  .map(dir => defaultComponent(conventions.get(path.join(dir, 'layout'))))
+                  .filter(isDefined),
+                loading: dirs
+                  .map(dir => defaultComponent(conventions.get(path.join(dir, 'loading'))))
+                  .filter(isDefined)
+                  .pop()
+              });
+            });
+        }
+      });
+
+    return routes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  // Folders of the Next.js apps among the analyzed files: the folder above each
+  // app/ or pages/ folder (or src/app, src/pages), and the folder of the nearest
+  // package.json, when they depend on next or have a next.config file
+  private nextProjectDirs(reactFiles : string[]) : string[] {
+    const candidates = new Set < string > ();
+    reactFiles.forEach(filePath => {
+      const folders = path
+        .relative(this.rootPath, path.dirname(filePath))
+        .split(path.sep);
+      const index = folders.findIndex(folder => folder === 'app' || folder === 'pages');
+      if (index >= 0) {
+        candidates.add(path.join(this.rootPath, ...folders.slice(0, index > 0 && folders[index - 1] === 'src'
+          ? index - 1
+          : index)));
+      }
+    });
+    for (let dir = this.rootPath; path.dirname(dir) !== dir; dir = path.dirname(dir)) {
+      if (fs.existsSync(path.join(dir, 'package.json'))) {
+        candidates.add(dir);
+        break;
+      }
+    }
+
+    return Array
+      .from(candidates)
+      .filter(dir => {
+        if (['js', 'mjs', 'cjs', 'ts'].some(extension => fs.existsSync(path.join(dir, `next.config.${extension}`)))) 
+          return true;
+        try {
+          const packageJson = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+          return !!(packageJson.dependencies
+            ?.next || packageJson.devDependencies
+              ?.next);
+        } catch (error) {
+          return false;
+        }
+      });
+  }
+
+  // The App Router folder of a Next.js app: app/ or src/app/
+  private appRouterDir(projectDir : string) : string | undefined {
+    return [path.join(projectDir, 'app'), path.join(projectDir, 'src', 'app')].find(dir => fs.existsSync(dir));
+  }
+
+  private isCustomHook(name?: string) : boolean {
+    // Custom hooks follow the useSomething naming convention
+    return !!name && /^use[A-Z0-9]/.test(name) && !REACT_HOOKS.includes(name) && !STORE_HOOKS[name];
+  }
+
+  private analyzeComponent(node : any, filePath : string, componentName : string, scope?: FileScope, kind : 'component' | 'hook' = 'component') : ComponentData | null {
+    if(!componentName) 
+      return null;
+    
+    const componentId = this.componentId(filePath, componentName);
+    const items: ComponentItem[] = [];
+    const hookReturns : {
+      [key : string]: string
+    } = {};
+    const functionNode = t.isVariableDeclarator(node)
+      ? node.init
+      : node;
+    const hookCalls = new Map < string,
+      SourceRange | undefined > ();
+    let itemCounter = 0;
+    let effectCounter = 0;
+
+    this
+      .debugInfo
+      .analysisLog
+      .push(`Analyzing ${kind}: ${componentName}`);
+
+    try {
+      traverse(node, {
+        noScope: true,
+
+        CallExpression: (path) => {
+          const callee = this.hookCallee(path.node.callee);
+          if (t.isIdentifier(callee) && /^use([A-Z]|$)/.test(callee.name) && !hookCalls.has(callee.name)) {
+            hookCalls.set(callee.name, this.sourceRange(path.node, filePath));
+          }
+
+          if (t.isIdentifier(callee)) {
+            // Custom hook usage: const {user, login} = useAuth()
+            const serverHook = scope
+              ?.serverHooks
+                .get(callee.name);
+            if (this.isCustomHook(callee.name) && !serverHook) {
+              const hookName = callee.name;
+              this
+                .debugInfo
+                .analysisLog
+                .push(`Found custom hook ${hookName} in ${componentName}`);
+
+              const addHookValue = (localName : string, hookKey?: string) => {
+                items.push({
+                  id: `${componentId}-${localName}`,
+                  name: localName,
+                  type: 'hook-value',
+                  color: '#06b6d4',
+                  flowId: `${hookName}-hook`,
+                  hookName,
+                  hookKey
+                });
+              };
+
+              const parent = path.parent;
+              if (t.isVariableDeclarator(parent) && t.isObjectPattern(parent.id)) {
+                parent
+                  .id
+                  .properties
+                  .forEach(prop => {
+                    if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+                      const value = t.isAssignmentPattern(prop.value)
+                        ? prop.value.left
+                        : prop.value;
+                      if (t.isIdentifier(value)) {
+                        addHookValue(value.name, prop.key.name);
+                      }
+                    }
+                  });
+              } else if (t.isVariableDeclarator(parent) && t.isArrayPattern(parent.id)) {
+                parent
+                  .id
+                  .elements
+                  .forEach((element, index) => {
+                    if (t.isIdentifier(element)) {
+                      addHookValue(element.name, String(index));
+                    }
+                  });
+              } else if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+                // Store hooks take a selector: const count = useCounterStore(s => s.count)
+                addHookValue(parent.id.name, this.selectorSlice(path.node.arguments[0]));
+              } else {
+                addHookValue(`${hookName}()`, this.selectorSlice(path.node.arguments[0]));
+              }
+            }
+
+            // Server state: useQuery({queryKey: ['todos']}), useSWR('/api/user'),
+            // useQuery(GET_TODOS) and useMutation(...)
+            if (serverHook && scope) {
+              const args = path.node.arguments;
+              const isQuery = serverHook.kind === 'query';
+              const keyArg = serverHook.library === 'react-query' && t.isObjectExpression(args[0])
+                ? this.objectOption(args[0], isQuery
+                  ? 'queryKey'
+                  : 'mutationKey')
+                : args[0];
+              const queryKey = serverHook.library === 'react-query' && !isQuery && !t.isObjectExpression(args[0])
+                ? undefined
+                : this.queryKey(keyArg, scope);
+              const invalidates = isQuery
+                ? undefined
+                : this.invalidatedKeys(args, scope);
+              if (!isQuery && serverHook.library === 'swr' && queryKey && invalidates) {
+                // useSWRMutation('/api/user', update) revalidates its own key
+                invalidates.unshift(queryKey);
+              }
+
+              // const {data: todos} = useQuery(...), const [addTodo] = useMutation(...)
+              const parent = path.parent;
+              const preferred = isQuery
+                ? ['data']
+                : ['mutate', 'mutateAsync', 'trigger'];
+              let localName : string | undefined;
+              if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+                localName = parent.id.name;
+              } else if (t.isVariableDeclarator(parent) && t.isArrayPattern(parent.id) && t.isIdentifier(parent.id.elements[0])) {
+                localName = parent.id.elements[0].name;
+              } else if (t.isVariableDeclarator(parent) && t.isObjectPattern(parent.id)) {
+                const properties = parent
+                  .id
+                  .properties
+                  .filter(prop => t.isObjectProperty(prop) && t.isIdentifier(prop.key) && t.isIdentifier(prop.value)) as t.ObjectProperty[];
+                const chosen = properties.find(prop => preferred.includes((prop.key as t.Identifier).name)) || properties[0];
+                localName = chosen && (chosen.value as t.Identifier).name;
+              }
+              const name = localName || `${callee.name}(${queryKey || ''})`;
+
+              this
+                .debugInfo
+                .analysisLog
+                .push(`Found ${callee.name} (${serverHook.library}) ${queryKey || ''} in ${componentName}`);
+              items.push({
+                id: `${componentId}-${name}`,
+                name,
+                type: isQuery
+                  ? 'server-state'
+                  : 'server-mutation',
+                color: isQuery
+                  ? '#2dd4bf'
+                  : '#0d9488',
+                flowId: `${queryKey || name}-query`,
+                hookName: callee.name,
+                library: serverHook.library,
+                queryKey,
+                invalidates,
+                calls: isQuery
+                  ? args.flatMap(arg => this.calledNames(arg))
+                  : undefined,
+                range: this.sourceRange(path.node, filePath)
+              });
+            }
+
+            // Store hooks: useSelector(state => state.todos), useDispatch(), useAtom(countAtom)
+            const storeHook = STORE_HOOKS[callee.name];
+            if (storeHook) {
+              const storeArg = path.node.arguments[0];
+              const isAtomHook = /Atom|Recoil/.test(callee.name);
+              const storeName = isAtomHook && t.isIdentifier(storeArg)
+                ? storeArg.name
+                : undefined;
+              const storeKey = isAtomHook
+                ? storeName
+                : this.selectorSlice(storeArg);
+              const addStoreItem = (localName : string, type : 'store-value' | 'store-dispatch') => {
+                items.push({
+                  id: `${componentId}-${localName}`,
+                  name: localName,
+                  type,
+                  color: type === 'store-value'
+                    ? '#facc15'
+                    : '#d97706',
+                  flowId: `${storeKey || callee.name}-store`,
+                  hookName: callee.name,
+                  storeName,
+                  storeKey,
+                  range: this.sourceRange(path.node, filePath)
+                });
+              };
+
+              this
+                .debugInfo
+                .analysisLog
+                .push(`Found ${callee.name}${storeKey
+                  ? `(${storeKey})`
+                  : ''} in ${componentName}`);
+              const parent = path.parent;
+              if (storeHook === 'read-write' && t.isVariableDeclarator(parent) && t.isArrayPattern(parent.id)) {
+                const [value, setter] = parent.id.elements;
+                if (t.isIdentifier(value)) {
+                  addStoreItem(value.name, 'store-value');
+                }
+                if (t.isIdentifier(setter)) {
+                  addStoreItem(setter.name, 'store-dispatch');
+                }
+              } else if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+                addStoreItem(parent.id.name, storeHook === 'write'
+                  ? 'store-dispatch'
+                  : 'store-value');
+              }
+            }
+
+            // dispatch(addTodo(text)): the actions sent through a useDispatch() item
+            const dispatcher = items.find(item => item.type === 'store-dispatch' && item.name === callee.name && !item.storeName);
+            const action = dispatcher && path.node.arguments[0]
+              ? this.actionName(path.node.arguments[0])
+              : undefined;
+            if (dispatcher && action) {
+              dispatcher.dispatches = [
+                ...(dispatcher.dispatches || []),
+                action
+              ];
+            }
+
+            // useState hook
+            if (callee.name === 'useState') {
+              this
+                .debugInfo
+                .analysisLog
+                .push(`Found useState in ${componentName}`);
+
+              const parent = path.parent;
+              if (t.isVariableDeclarator(parent) && t.isArrayPattern(parent.id)) {
+                const elements = parent.id.elements;
+                if (elements.length >= 2) {
+                  const stateName = t.isIdentifier(elements[0])
+                    ? elements[0].name
+                    : `state${itemCounter++}`;
+                  const setterName = t.isIdentifier(elements[1])
                     ? elements[1].name
                     : `setter${itemCounter++}`;
 
@@ -734,9 +2278,18 @@ export class ReactAnalyzer {
                     .analysisLog
                     .push(`  State: ${stateName}, Setter: ${setterName}`);
 
-                  items.push({id: `${componentName}-${stateName}`, name: stateName, type: 'state', color: '#22c55e', flowId: `${stateName}-flow`});
+                  const initialValue = path.node.arguments[0];
+                  items.push({
+                    id: `${componentId}-${stateName}`,
+                    name: stateName,
+                    type: 'state',
+                    color: '#22c55e',
+                    flowId: `${stateName}-flow`,
+                    initialReads: this.initialReads(initialValue),
+                    range: this.sourceRange(path.node, filePath)
+                  });
 
-                  items.push({id: `${componentName}-${setterName}`, name: setterName, type: 'setter', color: '#10b981', flowId: `${stateName}-flow`});
+                  items.push({id: `${componentId}-${setterName}`, name: setterName, type: 'setter', color: '#10b981', flowId: `${stateName}-flow`});
                 }
               }
             }
@@ -764,13 +2317,68 @@ export class ReactAnalyzer {
                     .analysisLog
                     .push(`  Reducer State: ${stateName}, Dispatch: ${dispatchName}`);
 
-                  items.push({id: `${componentName}-${stateName}`, name: stateName, type: 'state', color: '#22c55e', flowId: `${stateName}-flow`});
+                  items.push({id: `${componentId}-${stateName}`, name: stateName, type: 'state', color: '#22c55e', flowId: `${stateName}-flow`});
 
-                  items.push({id: `${componentName}-${dispatchName}`, name: dispatchName, type: 'setter', color: '#10b981', flowId: `${stateName}-flow`});
+                  items.push({id: `${componentId}-${dispatchName}`, name: dispatchName, type: 'setter', color: '#10b981', flowId: `${stateName}-flow`});
                 }
               }
             }
 
+            // Effects: useEffect(() => {...}, [deps])
+            if (EFFECT_HOOKS.includes(callee.name)) {
+              const [callback, deps] = path.node.arguments;
+              const dependencies = this.dependencyList(deps);
+              const name = `${callee.name}(${dependencies
+                ? '[' + dependencies.join(', ') + ']'
+                : ''})`;
+              const effectId = `${componentId}-${callee.name}-${effectCounter++}`;
+
+              this
+                .debugInfo
+                .analysisLog
+                .push(`Found ${name} in ${componentName}`);
+              items.push({
+                id: effectId,
+                name,
+                type: 'effect',
+                color: '#f43f5e',
+                flowId: `${effectId}-flow`,
+                hookName: callee.name,
+                dependencies,
+                calls: callback
+                  ? this.calledNames(callback)
+                  : [],
+                ...this.callbackUsage(callback),
+                range: this.sourceRange(path.node, filePath)
+              });
+            }
+
+            // Memoized values: const visible = useMemo(() => ..., [deps])
+            if (callee.name === 'useMemo') {
+              const parent = path.parent;
+              const name = t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)
+                ? parent.id.name
+                : `useMemo${itemCounter++}`;
+
+              this
+                .debugInfo
+                .analysisLog
+                .push(`Found useMemo: ${name} in ${componentName}`);
+              items.push({
+                id: `${componentId}-${name}`,
+                name,
+                type: 'memo',
+                color: '#84cc16',
+                flowId: `${name}-flow`,
+                hookName: 'useMemo',
+                dependencies: this.dependencyList(path.node.arguments[1]),
+                reads: this
+                  .callbackUsage(path.node.arguments[0])
+                  .reads,
+                range: this.sourceRange(path.node, filePath)
+              });
+            }
+
             // useContext hook
             if (callee.name === 'useContext') {
               this
@@ -779,27 +2387,47 @@ export class ReactAnalyzer {
                 .push(`Found useContext in ${componentName}`);
 
               const parent = path.parent;
-              if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
-                items.push({id: `${componentName}-${parent.id.name}`, name: `${parent.id.name}()`, type: 'context-consumer', color: '#8b5cf6', flowId: `${parent.id.name}-context`});
+              const contextArg = path.node.arguments[0];
+              const contextName = t.isIdentifier(contextArg)
+                ? contextArg.name
+                : undefined;
+              // const auth = useContext(AuthContext), or const {user} =
+              // useContext(AuthContext)
+              const localName = t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)
+                ? parent.id.name
+                : contextName;
+              if (localName) {
+                items.push({
+                  id: `${componentId}-${localName}`,
+                  name: `${localName}()`,
+                  type: 'context-consumer',
+                  color: '#8b5cf6',
+                  flowId: `${contextName || localName}-context`,
+                  contextName
+                });
               }
             }
           }
+        },
 
-          // Context Provider detection
-          if (t.isMemberExpression(callee) && t.isIdentifier(callee.property) && callee.property.name === 'Provider') {
-
-            const contextName = t.isIdentifier(callee.object)
-              ? callee.object.name
-              : 'Context';
-            this
-              .debugInfo
-              .analysisLog
-              .push(`Found Context Provider: ${contextName}`);
-
-            items.push({id: `${componentName}-${contextName}Provider`, name: `${contextName}Provider`, type: 'context-provider', color: '#ec4899', flowId: `${contextName}-context`});
+        // Context Provider detection: <AuthContext.Provider value={...}>
+        JSXOpeningElement: (path) => {
+          const provider = this.contextProviderItem(componentId, componentName, path.node, scope);
+          if (provider && !items.some(item => item.id === provider.id)) {
+            items.push(provider);
           }
         },
 
+        // Values returned from a custom hook (top-level returns only)
+        ReturnStatement: (path) => {
+          if (kind !== 'hook' || !path.node.argument) 
+            return;
+          const functionParent = path.getFunctionParent();
+          if (functionParent && functionParent.node !== functionNode) 
+            return;
+          this.collectHookReturns(path.node.argument, hookReturns);
+        },
+
         // Function declarations within component
         FunctionDeclaration: (path) => {
           if (path.node.id && path.node.id.name !== componentName) {
@@ -807,18 +2435,49 @@ export class ReactAnalyzer {
               .debugInfo
               .analysisLog
               .push(`Found function: ${path.node.id.name}`);
-            items.push({id: `${componentName}-${path.node.id.name}`, name: path.node.id.name, type: 'function', color: '#3b82f6', flowId: `${path.node.id.name}-flow`});
+            items.push({
+              id: `${componentId}-${path.node.id.name}`,
+              name: path.node.id.name,
+              type: 'function',
+              color: '#3b82f6',
+              flowId: `${path.node.id.name}-flow`,
+              calls: this.calledNames(path.node)
+            });
           }
         },
 
-        // Arrow functions assigned to variables
+        // Arrow functions assigned to variables, possibly memoized with useCallback
         VariableDeclarator: (path) => {
-          if (t.isArrowFunctionExpression(path.node.init) && t.isIdentifier(path.node.id)) {
+          const init = path.node.init;
+          const fn = init && this.callbackFunction(init);
+          if (fn && t.isIdentifier(path.node.id)) {
             this
               .debugInfo
               .analysisLog
               .push(`Found arrow function: ${path.node.id.name}`);
-            items.push({id: `${componentName}-${path.node.id.name}`, name: path.node.id.name, type: 'function', color: '#3b82f6', flowId: `${path.node.id.name}-flow`});
+            const isUseCallback = t.isCallExpression(init);
+            items.push({
+              id: `${componentId}-${path.node.id.name}`,
+              name: path.node.id.name,
+              type: 'function',
+              color: '#3b82f6',
+              flowId: `${path.node.id.name}-flow`,
+              hookName: isUseCallback
+                ? 'useCallback'
+                : undefined,
+              dependencies: isUseCallback
+                ? this.dependencyList(init.arguments[1])
+                : undefined,
+              calls: this.calledNames(fn),
+              reads: isUseCallback
+                ? this
+                  .callbackUsage(fn)
+                  .reads
+                : undefined,
+              range: isUseCallback
+                ? this.sourceRange(init, filePath)
+                : undefined
+            });
           }
         }
       });
@@ -831,8 +2490,23 @@ export class ReactAnalyzer {
     }
 
     // Analyze props
-    const props = this.extractProps(node, componentName);
-    items.push(...props.map(prop => ({id: `${componentName}-${prop}`, name: prop, type: 'prop' as const, color: '#f59e0b', flowId: `${prop}-flow`})));
+    const props = this.extractProps(node, componentName, scope);
+    items.push(...this.propItems(componentId, props));
+    this.markCallbackProps(functionNode, items);
+    this.markPassThroughProps(functionNode, items);
+    this
+      .componentReferences
+      .set(componentId, this.collectReadNames(functionNode));
+
+      if (kind === 'hook') {
+        // Expression-bodied hook: const useX = () => ({...})
+        if (t.isArrowFunctionExpression(functionNode) && !t.isBlockStatement(functionNode.body)) {
+          this.collectHookReturns(functionNode.body, hookReturns);
+        }
+
+        // The hook's return value, linked to callers that use it as a whole
+        items.unshift({id: `${componentId}-return`, name: 'return', type: 'hook-return', color: '#0ea5e9', flowId: `${componentName}-hook`});
+      }
 
       this
         .debugInfo
@@ -840,43 +2514,454 @@ export class ReactAnalyzer {
         .push(`Component ${componentName} analysis complete: ${items.length} items found`);
 
       return {
-        id: componentName,
+        id: componentId,
         filePath,
         name: componentName,
+        label: componentName,
         x: 0,
         y: 0,
-        width: Math.max(200, componentName.length * 8 + 40),
+        width: this.componentWidth(componentName, items),
         height: Math.max(100, items.length * 18 + 60),
-        items
+        kind,
+        hookCalls: Array
+          .from(hookCalls)
+          .map(([name, range]) => ({name, range})),
+        items,
+        hookReturns: kind === 'hook'
+          ? hookReturns
+          : undefined
       };
     }
 
-    private analyzeClassComponent(node : t.ClassDeclaration, filePath : string) : ComponentData | null {
-      const componentName = node.id
-        ?.name;
-      if (!componentName) 
-        return null;
+    // Entries of a dependency array (user.id, props.filter), or undefined when the
+    // hook has none and runs after every render
+    private dependencyList(node : t.Node | undefined) : string[] | undefined {
+      if(!t.isArrayExpression(node)) 
+        return undefined;
       
-      const items: ComponentItem[] = [];
+      const entryName = (n : t.Node | null) : string | null => {
+        if (t.isIdentifier(n)) 
+          return n.name;
+        if ((t.isMemberExpression(n) || t.isOptionalMemberExpression(n)) && !n.computed && t.isIdentifier(n.property)) {
+          const objectName = entryName(n.object);
+          return objectName
+            ? `${objectName}.${n.property.name}`
+            : null;
+        }
+        return null;
+      };
 
-      this
-        .debugInfo
-        .analysisLog
-        .push(`Analyzing class component: ${componentName}`);
+      return node
+        .elements
+        .map(element => entryName(element))
+        .filter((name) : name is string => !!name);
+    }
+
+    // Names called within a function: setPage(1), load(), props.onChange()
+    private calledNames(fn : t.Node) : string[] {
+      const names : string[] = [];
+      const recordCall = (callee : t.Node) => {
+        const name = t.isIdentifier(callee)
+          ? callee.name
+          : t.isMemberExpression(callee) && t.isIdentifier(callee.object, {name: 'props'}) && t.isIdentifier(callee.property) && !callee.computed
+            ? callee.property.name
+            : null;
+        if (name && !names.includes(name)) {
+          names.push(name);
+        }
+      };
 
       try {
-        traverse(node, {
-          ClassMethod: (path) => {
-            if (t.isIdentifier(path.node.key)) {
-              const methodName = path.node.key.name;
-              if (methodName !== 'render' && methodName !== 'constructor') {
-                this
-                  .debugInfo
-                  .analysisLog
-                  .push(`Found class method: ${methodName}`);
-                items.push({id: `${componentName}-${methodName}`, name: methodName, type: 'function', color: '#3b82f6', flowId: `${methodName}-flow`});
-              }
-            }
+        traverse(fn, {
+          noScope: true,
+          CallExpression: (path) => recordCall(path.node.callee),
+          OptionalCallExpression: (path) => recordCall(path.node.callee)
+        });
+      } catch (error) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Error collecting calls: ${error}`);
+      }
+
+      return names;
+    }
+
+    // Outer names a hook callback reads, and the calls it makes unconditionally
+    private callbackUsage(fn : t.Node | undefined) : {
+      reads: string[];
+      unguardedCalls: string[]
+    } {
+      const reads : string[] = [];
+      const unguardedCalls : string[] = [];
+      if (!t.isArrowFunctionExpression(fn) && !t.isFunctionExpression(fn)) 
+        return {reads, unguardedCalls};
+      
+      // Names declared inside the callback shadow the component's
+      const locals = new Set < string > ();
+      const addLocals = (n : t.Node) => Object
+        .keys(t.getBindingIdentifiers(n))
+        .forEach(name => locals.add(name));
+      fn
+        .params
+        .forEach(addLocals);
+
+      // Statements after `if (...) return;` only run conditionally
+      const body = fn.body;
+      const guardedFrom = t.isBlockStatement(body)
+        ? body
+          .body
+          .findIndex(statement => t.isIfStatement(statement) && (t.isReturnStatement(statement.consequent) || (t.isBlockStatement(statement.consequent) && statement.consequent.body.some(inner => t.isReturnStatement(inner)))))
+        : -1;
+
+      const isGuarded = (path : any) => {
+        if (path.findParent((p : any) => p.isIfStatement() || p.isConditionalExpression() || p.isLogicalExpression() || p.isSwitchCase())) 
+          return true;
+        if (guardedFrom === -1 || !t.isBlockStatement(body)) 
+          return false;
+        const statement = path.findParent((p : any) => p.parent === body) || path;
+        return body
+          .body
+          .indexOf(statement.node) > guardedFrom;
+      };
+
+      try {
+        traverse(fn, {
+          noScope: true,
+
+          VariableDeclarator: (path) => addLocals(path.node.id),
+          FunctionDeclaration: (path) => {
+            if (path.node.id) {
+              locals.add(path.node.id.name);
+            }
+          },
+          Function: (path) => {
+            path
+              .node
+              .params
+              .forEach(addLocals);
+          },
+
+          CallExpression: (path) => {
+            const callee = path.node.callee;
+            if (t.isIdentifier(callee) && !isGuarded(path) && !unguardedCalls.includes(callee.name)) {
+              unguardedCalls.push(callee.name);
+            }
+          },
+
+          MemberExpression: (path) => {
+            // props.page, or this.props.page
+            const {object, property} = path.node;
+            const isPropsObject = t.isIdentifier(object, {name: 'props'}) || (t.isMemberExpression(object) && t.isThisExpression(object.object) && t.isIdentifier(object.property, {name: 'props'}));
+            if (isPropsObject && t.isIdentifier(property) && !path.node.computed) {
+              reads.push(`props.${property.name}`);
+              path.skip();
+            }
+          },
+
+          Identifier: (path) => {
+            if (path.isReferencedIdentifier()) {
+              reads.push(path.node.name);
+            }
+          }
+        });
+      } catch (error) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Error analyzing hook callback: ${error}`);
+      }
+
+      return {
+        reads: reads.filter((name, index) => !locals.has(name) && reads.indexOf(name) === index),
+        unguardedCalls: unguardedCalls.filter(name => !locals.has(name))
+      };
+    }
+
+    // Outer names read by an initial state value: useState(props.value),
+    // useState(() => compute(user)) or state = {value: this.props.value}
+    private initialReads(initialValue : t.Node | undefined) : string[] | undefined {
+      if(!initialValue || !t.isExpression(initialValue)) 
+        return undefined;
+      const fn = t.isArrowFunctionExpression(initialValue) || t.isFunctionExpression(initialValue)
+        ? initialValue
+        : this.expressionFunction(initialValue);
+      const reads = this
+        .callbackUsage(fn)
+        .reads;
+      return reads.length > 0
+        ? reads
+        : undefined;
+    }
+
+    // A function returning an expression, for the helpers that take one; traversal
+    // skips the root node, and a bare identifier needs a parent statement
+    private expressionFunction(expr : t.Expression) : t.ArrowFunctionExpression {
+      return t.arrowFunctionExpression([], t.blockStatement([t.returnStatement(expr)]));
+    }
+
+    private sourceRange(node : t.Node, filePath : string) : SourceRange | undefined {
+      if(!node.loc) 
+        return undefined;
+      return {filePath, startLine: node.loc.start.line, startColumn: node.loc.start.column, endLine: node.loc.end.line, endColumn: node.loc.end.column};
+    }
+
+    // The function behind a callback: () => ..., function () {...} or
+    // useCallback(() => ..., deps)
+    private callbackFunction(node : t.Node) : t.ArrowFunctionExpression | t.FunctionExpression | null {
+      if(t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) 
+        return node;
+      if (t.isCallExpression(node)) {
+        const callee = node.callee;
+        const isUseCallback = t.isIdentifier(callee, {name: 'useCallback'}) || (t.isMemberExpression(callee) && t.isIdentifier(callee.property, {name: 'useCallback'}));
+        const fn = node.arguments[0];
+        if (isUseCallback && (t.isArrowFunctionExpression(fn) || t.isFunctionExpression(fn))) 
+          return fn;
+      }
+      return null;
+    }
+
+    private collectHookReturns(argument : t.Node, hookReturns : {
+      [key : string]: string
+    }) {
+      if(t.isTSAsExpression(argument) || t.isParenthesizedExpression(argument)) {
+        // return [value, setValue] as const
+        this.collectHookReturns(argument.expression, hookReturns);
+      } else if (t.isObjectExpression(argument)) {
+        // return {user, login: handleLogin}
+        argument
+          .properties
+          .forEach(prop => {
+            if ((t.isObjectProperty(prop) || t.isObjectMethod(prop)) && t.isIdentifier(prop.key)) {
+              hookReturns[prop.key.name] = t.isObjectProperty(prop) && t.isIdentifier(prop.value)
+                ? prop.value.name
+                : prop.key.name;
+            }
+          });
+      } else if (t.isArrayExpression(argument)) {
+        // return [value, setValue]
+        argument
+          .elements
+          .forEach((element, index) => {
+            if (t.isIdentifier(element)) {
+              hookReturns[String(index)] = element.name;
+            }
+          });
+      } else if (t.isIdentifier(argument)) {
+        // return state
+        hookReturns[''] = argument.name;
+      }
+    }
+
+    private componentWidth(componentName : string, items : ComponentItem[]) : number {
+      // Leave room for the declared type shown next to prop names
+      const longestItem = items.reduce((max, item) => Math.max(max, item.name.length + (item.valueType
+        ? item.valueType.length + 3
+        : 0)), 0);
+      return Math.min(420, Math.max(200, componentName.length * 8 + 40, longestItem * 7 + 80));
+    }
+
+    private analyzeClassComponent(node : t.ClassDeclaration, filePath : string, scope?: FileScope) : ComponentData | null {
+      const componentName = node.id
+        ?.name;
+      if (!componentName) 
+        return null;
+      
+      const componentId = this.componentId(filePath, componentName);
+      const items: ComponentItem[] = [];
+      const props : PropDefinition[] = [];
+      let setStateCounter = 0;
+
+      this
+        .debugInfo
+        .analysisLog
+        .push(`Analyzing class component: ${componentName}`);
+
+      const isThisMember = (n : t.Node | null | undefined, property : string) => t.isMemberExpression(n) && t.isThisExpression(n.object) && t.isIdentifier(n.property, {name: property});
+
+      const addState = (key : string, initialValue?: t.Node) => {
+        if (!items.some(item => item.type === 'state' && item.name === key)) {
+          this
+            .debugInfo
+            .analysisLog
+            .push(`  State key: ${key}`);
+          items.push({
+            id: `${componentId}-${key}`,
+            name: key,
+            type: 'state',
+            color: '#22c55e',
+            flowId: `${key}-flow`,
+            initialReads: this.initialReads(initialValue),
+            range: initialValue
+              ? this.sourceRange(initialValue, filePath)
+              : undefined
+          });
+        }
+      };
+
+      const addProp = (propName : string) => {
+        if (!props.some(p => p.name === propName)) {
+          this
+            .debugInfo
+            .analysisLog
+            .push(`  Found prop usage: this.props.${propName}`);
+          props.push({name: propName, optional: false});
+        }
+      };
+
+      const addContextConsumer = (localName : string, contextName : string) => {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Found context consumer: ${contextName} in ${componentName}`);
+        items.push({
+          id: `${componentId}-${localName}`,
+          name: `${localName}()`,
+          type: 'context-consumer',
+          color: '#8b5cf6',
+          flowId: `${contextName}-context`,
+          contextName
+        });
+      };
+
+      try {
+        traverse(node, {
+          noScope: true,
+
+          ClassMethod: (path) => {
+            if (t.isIdentifier(path.node.key)) {
+              const methodName = path.node.key.name;
+              if (methodName !== 'render' && methodName !== 'constructor') {
+                this
+                  .debugInfo
+                  .analysisLog
+                  .push(`Found class method: ${methodName}`);
+                items.push({id: `${componentId}-${methodName}`, name: methodName, type: 'function', color: '#3b82f6', flowId: `${methodName}-flow`});
+              }
+            }
+          },
+
+          ClassProperty: (path) => {
+            if (!t.isIdentifier(path.node.key)) 
+              return;
+            const propertyName = path.node.key.name;
+            const value = path.node.value;
+
+            // state = {...}
+            if (propertyName === 'state' && !path.node.static && t.isObjectExpression(value)) {
+              value
+                .properties
+                .forEach(prop => {
+                  if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+                    addState(prop.key.name, prop.value);
+                  }
+                });
+            } else if (propertyName === 'contextType' && path.node.static && t.isIdentifier(value)) {
+              // static contextType = AuthContext
+              addContextConsumer('context', value.name);
+            } else if (!path.node.static && (t.isArrowFunctionExpression(value) || t.isFunctionExpression(value))) {
+              // handleClick = () => {...}
+              this
+                .debugInfo
+                .analysisLog
+                .push(`Found class property function: ${propertyName}`);
+              items.push({id: `${componentId}-${propertyName}`, name: propertyName, type: 'function', color: '#3b82f6', flowId: `${propertyName}-flow`});
+            }
+          },
+
+          // this.state = {...} in the constructor
+          AssignmentExpression: (path) => {
+            if (isThisMember(path.node.left, 'state') && t.isObjectExpression(path.node.right)) {
+              path
+                .node
+                .right
+                .properties
+                .forEach(prop => {
+                  if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+                    addState(prop.key.name, prop.value);
+                  }
+                });
+            }
+          },
+
+          // this.setState({...}) or this.setState(prev => ({...}))
+          CallExpression: (path) => {
+            if (!isThisMember(path.node.callee, 'setState') || path.node.arguments.length === 0) 
+              return;
+            
+            const keys = this.setStateKeys(path.node.arguments[0]);
+            keys.forEach(key => addState(key));
+
+            const owner = path.findParent(parent => parent.isClassMethod() || parent.isClassProperty());
+            const ownerName = owner && (t.isClassMethod(owner.node) || t.isClassProperty(owner.node)) && t.isIdentifier(owner.node.key)
+              ? owner.node.key.name
+              : undefined;
+            const setterName = `${ownerName
+              ? ownerName + ' → '
+              : ''}setState(${keys.join(', ')})`;
+
+            this
+              .debugInfo
+              .analysisLog
+              .push(`  Setter: ${setterName}`);
+            items.push({
+              id: `${componentId}-setState-${setStateCounter++}`,
+              name: setterName,
+              type: 'setter',
+              color: '#10b981',
+              flowId: keys.length > 0
+                ? `${keys[0]}-flow`
+                : 'setState-flow',
+              updates: keys
+            });
+          },
+
+          // this.props.value, or props.value in the constructor
+          MemberExpression: (path) => {
+            const object = path.node.object;
+            if ((isThisMember(object, 'props') || t.isIdentifier(object, {name: 'props'})) && t.isIdentifier(path.node.property) && !path.node.computed) {
+              addProp(path.node.property.name);
+            }
+          },
+
+          // const {value, onChange} = this.props
+          VariableDeclarator: (path) => {
+            if (isThisMember(path.node.init, 'props') && t.isObjectPattern(path.node.id)) {
+              path
+                .node
+                .id
+                .properties
+                .forEach(prop => {
+                  if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+                    addProp(prop.key.name);
+                  }
+                });
+            }
+          },
+
+          // <AuthContext.Consumer>{auth => ...}</AuthContext.Consumer>
+          JSXElement: (path) => {
+            const provider = this.contextProviderItem(componentId, componentName, path.node.openingElement, scope);
+            if (provider && !items.some(item => item.id === provider.id)) {
+              items.push(provider);
+            }
+
+            const name = path.node.openingElement.name;
+            if (!t.isJSXMemberExpression(name) || name.property.name !== 'Consumer' || !t.isJSXIdentifier(name.object)) 
+              return;
+            
+            const renderProp = path
+              .node
+              .children
+              .find(child => t.isJSXExpressionContainer(child) && t.isFunction(child.expression));
+            const renderFunction = t.isJSXExpressionContainer(renderProp) && t.isFunction(renderProp.expression)
+              ? renderProp.expression
+              : null;
+            const param = renderFunction
+              ?.params[0];
+            addContextConsumer(t.isIdentifier(param)
+              ? param.name
+              : name.object.name, name.object.name);
           }
         });
 
@@ -887,20 +2972,88 @@ export class ReactAnalyzer {
           .push(`Error analyzing class component ${componentName}: ${error}`);
       }
 
+      // class Component extends React.Component<Props, State>
+      const typeArguments = node.superTypeParameters && t.isTSTypeParameterInstantiation(node.superTypeParameters)
+        ? node.superTypeParameters.params
+        : [];
+      if (scope) {
+        this.completePropDefinitions(props, typeArguments[0] || null, componentName, scope);
+        if (typeArguments[1]) {
+          this
+            .resolveTypeMembers(typeArguments[1], scope, new Set())
+            .forEach(stateKey => addState(stateKey.name));
+        }
+      }
+
+      items.push(...this.propItems(componentId, props));
+      this.markCallbackProps(node.body, items);
+      this.markPassThroughProps(node.body, items);
+      this
+        .componentReferences
+        .set(componentId, this.collectReadNames(node.body));
+
       return {
-        id: componentName,
+        id: componentId,
         filePath,
         name: componentName,
+        label: componentName,
         x: 0,
         y: 0,
-        width: Math.max(200, componentName.length * 8 + 40),
+        width: this.componentWidth(componentName, items),
         height: Math.max(100, items.length * 18 + 60),
+        kind: 'component',
         items
       };
     }
 
-    private extractProps(node : any, componentName : string) : string[] {
-      const props : string[] = [];
+    private setStateKeys(argument : t.Node) : string[] {
+      const keys : string[] = [];
+      const addKeys = (n : t.Node | null | undefined) => {
+        if (t.isObjectExpression(n)) {
+          n
+            .properties
+            .forEach(prop => {
+              if (t.isObjectProperty(prop) && t.isIdentifier(prop.key) && !keys.includes(prop.key.name)) {
+                keys.push(prop.key.name);
+              }
+            });
+        }
+      };
+
+      if (t.isObjectExpression(argument)) {
+        addKeys(argument);
+      } else if (t.isArrowFunctionExpression(argument) && !t.isBlockStatement(argument.body)) {
+        addKeys(argument.body);
+      } else if (t.isFunction(argument)) {
+        // Updater with a body: collect every object it returns
+        const findReturns = (n : any) : void => {
+          if (!n || typeof n !== 'object') 
+            return;
+          if (t.isReturnStatement(n)) {
+            addKeys(n.argument);
+            return;
+          }
+          if (n !== argument && t.isFunction(n)) 
+            return;
+          for (const key in n) {
+            if (key === 'loc' || key === 'start' || key === 'end') 
+              continue;
+            const value = n[key];
+            if (Array.isArray(value)) {
+              value.forEach(item => findReturns(item));
+            } else if (value && typeof value === 'object') {
+              findReturns(value);
+            }
+          }
+        };
+        findReturns(argument);
+      }
+
+      return keys;
+    }
+
+    private extractProps(node : any, componentName : string, scope?: FileScope) : PropDefinition[] {
+      const props : PropDefinition[] = [];
 
       this
         .debugInfo
@@ -931,13 +3084,21 @@ export class ReactAnalyzer {
               .properties
               .forEach((prop : any) => {
                 if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
-                  props.push(prop.key.name);
+                  // Default value: function Component({size = 'md'}) {}
+                  const defaultValue = scope && t.isAssignmentPattern(prop.value)
+                    ? this.sourceText(prop.value.right, scope.code)
+                    : undefined;
+                  props.push({
+                    name: prop.key.name,
+                    optional: defaultValue !== undefined,
+                    defaultValue
+                  });
                   this
                     .debugInfo
                     .analysisLog
                     .push(`  Found destructured prop: ${prop.key.name}`);
                 } else if (t.isRestElement(prop) && t.isIdentifier(prop.argument)) {
-                  props.push(`...${prop.argument.name}`);
+                  props.push({name: `...${prop.argument.name}`, optional: true});
                   this
                     .debugInfo
                     .analysisLog
@@ -956,11 +3117,49 @@ export class ReactAnalyzer {
               if (!n || typeof n !== 'object') 
                 return;
               
+              // Props forwarded as a whole: <Child {...props} />
+              if (t.isJSXSpreadAttribute(n) && t.isIdentifier(n.argument, {name: 'props'}) && !props.some(p => p.name === '...props')) {
+                props.push({name: '...props', optional: true});
+                this
+                  .debugInfo
+                  .analysisLog
+                  .push(`  Found spread props: {...props}`);
+              }
+
+              // Props destructured in the body: const {label, ...rest} = props
+              if (t.isVariableDeclarator(n) && t.isObjectPattern(n.id) && t.isIdentifier(n.init, {name: 'props'})) {
+                n
+                  .id
+                  .properties
+                  .forEach(prop => {
+                    const name = t.isObjectProperty(prop) && t.isIdentifier(prop.key)
+                      ? prop.key.name
+                      : t.isRestElement(prop) && t.isIdentifier(prop.argument)
+                        ? `...${prop.argument.name}`
+                        : undefined;
+                    if (!name || props.some(p => p.name === name)) 
+                      return;
+                    const defaultValue = scope && t.isObjectProperty(prop) && t.isAssignmentPattern(prop.value)
+                      ? this.sourceText(prop.value.right, scope.code)
+                      : undefined;
+                    props.push({
+                      name,
+                      optional: name.startsWith('...') || defaultValue !== undefined,
+                      defaultValue
+                    });
+                    this
+                      .debugInfo
+                      .analysisLog
+                      .push(`  Found destructured prop in body: ${name}`);
+                  });
+              }
+
               // Check for props.propertyName
               if (t.isMemberExpression(n)) {
                 if (t.isIdentifier(n.object) && n.object.name === 'props' && t.isIdentifier(n.property)) {
-                  if (!props.includes(n.property.name)) {
-                    props.push(n.property.name);
+                  const propName = n.property.name;
+                  if (!props.some(p => p.name === propName)) {
+                    props.push({name: propName, optional: false});
                     this
                       .debugInfo
                       .analysisLog
@@ -998,6 +3197,10 @@ export class ReactAnalyzer {
           }
         }
 
+        if (scope) {
+          this.completePropDefinitions(props, this.findPropsTypeAnnotation(node), componentName, scope);
+        }
+
       } catch (error) {
         this
           .debugInfo
@@ -1008,179 +3211,2851 @@ export class ReactAnalyzer {
       this
         .debugInfo
         .analysisLog
-        .push(`Extracted ${props.length} props for ${componentName}: [${props.join(', ')}]`);
+        .push(`Extracted ${props.length} props for ${componentName}: [${props.map(p => p.name + (p.optional
+          ? '?'
+          : '')).join(', ')}]`);
       return props;
     }
 
-    private async analyzeJSXFlows(reactFiles : string[], componentMap : Map < string, ComponentData >) : Promise < DataFlow[] > {
-      const flows: DataFlow[] = [];
-      const flowIdCounter = new Map < string,
-        number > ();
-
-      for (const filePath of reactFiles) {
-        try {
-          const code = fs.readFileSync(filePath, 'utf-8');
-          const ast = parse(code, {
-            sourceType: 'module',
-            plugins: ['jsx', 'typescript', 'decorators-legacy', 'classProperties']
-          });
-
-          // Find JSX element usage
-          traverse(ast, {
-            JSXElement: (path : any) => {
-              const openingElement = path.node.openingElement;
-              if (t.isJSXIdentifier(openingElement.name)) {
-                const componentName = openingElement.name.name;
-
-                // Only process if it's a known component (starts with uppercase)
-                if (!/^[A-Z]/.test(componentName)) 
-                  return;
-                
-                const childComponent = componentMap.get(componentName);
-                if (!childComponent) 
-                  return;
-                
-                // Find parent component
-                let parentComponent : ComponentData | undefined;
-                let currentPath = path.parentPath;
-
-                while (currentPath) {
-                  const node = currentPath.node;
-                  if (t.isFunctionDeclaration(node) && node.id) {
-                    parentComponent = componentMap.get(node.id.name);
-                    break;
-                  } else if (t.isVariableDeclarator(node) && t.isIdentifier(node.id)) {
-                    parentComponent = componentMap.get(node.id.name);
-                    break;
-                  }
-                  currentPath = currentPath.parentPath;
-                }
-
-                if (!parentComponent) 
-                  return;
-                
-                this
-                  .debugInfo
-                  .analysisLog
-                  .push(`Found JSX: ${parentComponent.name} renders ${childComponent.name}`);
-
-                // Analyze props being passed
-                openingElement
-                  .attributes
-                  .forEach((attr : any) => {
-                    if (!t.isJSXAttribute(attr)) 
-                      return;
-                    if (!t.isJSXIdentifier(attr.name)) 
-                      return;
-                    if (!parentComponent) 
-                      return; // Guard clause
-                    
-                    const propName = attr.name.name;
-                    const propValue = attr.value;
-
-                    // Find matching items in parent and child
-                    const childPropItem = childComponent
-                      .items
-                      .find(item => item.name === propName && (item.type === 'prop' || item.type === 'prop-function'));
+    private completePropDefinitions(props : PropDefinition[], propsType : t.TSType | null, componentName : string, scope : FileScope) {
+      // Declared props: function Component(props: Props) {} or const Component:
+      // React.FC<Props> = ...
+      if (propsType) {
+        const declared = this.resolveTypeMembers(propsType, scope, new Set());
+        this
+          .debugInfo
+          .analysisLog
+          .push(`  Resolved ${declared.length} declared props from ${this.sourceText(propsType, scope.code)}`);
+
+        // function Input({label, ...rest}: Props): the other declared props end up in rest
+        const rest = props.find(p => p.name.startsWith('...'));
+        declared.forEach(declaredProp => {
+          const existing = props.find(p => p.name === declaredProp.name);
+          if (existing) {
+            existing.valueType = declaredProp.valueType;
+            existing.optional = declaredProp.optional || existing.defaultValue !== undefined;
+          } else {
+            props.push({
+              ...declaredProp,
+              restOf: rest && rest
+                .name
+                .slice(3)
+            });
+          }
+        });
+      }
 
-                    if (!childPropItem) 
-                      return;
-                    
-                    // Try to find what's being passed
-                    let parentItem : ComponentItem | undefined;
-
-                    if (t.isJSXExpressionContainer(propValue)) {
-                      const expr = propValue.expression;
-
-                      // Direct identifier: <Child prop={value} />
-                      if (t.isIdentifier(expr)) {
-                        const valueName = expr.name;
-                        parentItem = parentComponent
-                          .items
-                          .find(item => item.name === valueName
-                          // Member expression: <Child prop={this.state.value} />
-                          );
-                      } else if (t.isMemberExpression(expr) && t.isIdentifier(expr.property)) {
-                        const valueName = expr.property.name;
-                        parentItem = parentComponent
-                          .items
-                          .find(item => item.name === valueName);
-                      }
-                    }
+      // Component.defaultProps = {...} or static defaultProps = {...}
+      const defaults = scope
+        .defaultProps
+        .get(componentName);
+      if (defaults) {
+        defaults.forEach((value, propName) => {
+          const existing = props.find(p => p.name === propName);
+          if (existing) {
+            existing.defaultValue = value;
+            existing.optional = true;
+          }
+        });
+      }
+    }
 
-                    if (parentItem) {
-                      const flowId = `${propName}-flow`;
-                      const flowType = this.determineFlowType(parentItem.type, childPropItem.type);
+    private propItems(componentId : string, props : PropDefinition[]) : ComponentItem[] {
+      return props.map(prop => ({
+        id: `${componentId}-${prop.name}`,
+        name: prop.name,
+        type: 'prop' as const,
+        color: '#f59e0b',
+        flowId: `${prop.name}-flow`,
+        valueType: prop.valueType,
+        optional: prop.optional,
+        defaultValue: prop.defaultValue,
+        restOf: prop.restOf
+      }));
+    }
 
-                      flows.push({id: flowId, fromItem: parentItem.id, toItem: childPropItem.id, type: flowType});
+    // Reclassifies callback props as 'prop-function': props named like handlers
+    // (onSave), typed as functions, or called within the component
+    private markCallbackProps(node : t.Node | null | undefined, items : ComponentItem[]) {
+      const called = new Set < string > ();
+      const isPropsObject = (n : t.Node) => t.isIdentifier(n, {name: 'props'}) || (t.isMemberExpression(n) && t.isThisExpression(n.object) && t.isIdentifier(n.property, {name: 'props'}));
+
+      const recordCall = (callee : t.Node) => {
+        if (t.isIdentifier(callee)) {
+          called.add(callee.name);
+        } else if (t.isMemberExpression(callee) && isPropsObject(callee.object) && t.isIdentifier(callee.property) && !callee.computed) {
+          called.add(callee.property.name);
+        }
+      };
 
-                      this
-                        .debugInfo
-                        .analysisLog
-                        .push(`  Flow: ${parentComponent.name}.${parentItem.name} → ${childComponent.name}.${propName}`);
-                    }
-                  });
-              }
-            }
+      if (node) {
+        try {
+          traverse(node, {
+            noScope: true,
+            CallExpression: (path) => recordCall(path.node.callee),
+            OptionalCallExpression: (path) => recordCall(path.node.callee)
           });
-
         } catch (error) {
           this
             .debugInfo
             .analysisLog
-            .push(`Error analyzing JSX flows in ${filePath}: ${error}`);
+            .push(`Error checking callback props: ${error}`);
         }
       }
 
-      return flows;
+      items.forEach(item => {
+        if (item.type !== 'prop' || item.name.startsWith('...')) 
+          return;
+        const isFunctionType = !!item.valueType && /=>|^Function$|EventHandler|Dispatch</.test(item.valueType);
+        if (CALLBACK_PROP_PATTERN.test(item.name) || isFunctionType || called.has(item.name)) {
+          item.type = 'prop-function';
+          item.color = '#fb923c';
+        }
+      });
     }
 
-    private determineFlowType(fromType : string, toType : string) : string {
-      if(fromType === 'state' && toType === 'prop') 
-        return 'state-to-prop';
-      if (fromType === 'setter' && toType === 'prop-function') 
-        return 'setter-to-prop';
-      if (fromType === 'function' && toType === 'prop-function') 
-        return 'function-to-prop';
-      if (fromType === 'prop' && toType === 'prop') 
-        return 'prop-to-prop';
-      if (fromType === 'context-provider') 
-        return 'context-provider-to-consumer';
-      return 'data-flow';
-    }
+    // Flags props whose only uses are as attributes of child components: <Child
+    // user={user} />, <Child user={props.user} /> or <Child user={this.props.user} />,
+    // or spread into them: <Child {...props} /> or <Child {...rest} />
+    private markPassThroughProps(node : t.Node | null | undefined, items : ComponentItem[]) {
+      const propNames = items
+        .filter(item => item.type === 'prop' || item.type === 'prop-function')
+        .map(item => item.name);
+      if (!node || propNames.length === 0) 
+        return;
+      
+      const read = new Set < string > ();
+      const forwarded = new Set < string > ();
+      let readsAllProps = false;
 
-    private detectConflicts(components : ComponentData[], flows : DataFlow[]) : ConflictData[] {
-      const conflicts : ConflictData[] = [];
+      const isPropsObject = (n : t.Node) => t.isIdentifier(n, {name: 'props'}) || (t.isMemberExpression(n) && t.isThisExpression(n.object) && t.isIdentifier(n.property, {name: 'props'}));
 
-      // Find props that have same name as context consumers in same component
-      components.forEach(component => {
-        const props = component
-          .items
-          .filter(item => item.type === 'prop');
-        const contextConsumers = component
-          .items
-          .filter(item => item.type === 'context-consumer');
+      const isComponentElement = (n : t.Node | null | undefined) => t.isJSXOpeningElement(n) && (t.isJSXMemberExpression(n.name) || (t.isJSXIdentifier(n.name) && /^[A-Z]/.test(n.name.name)));
 
-        props.forEach(prop => {
-          const similarContext = contextConsumers.find(ctx => {
-            // Remove common suffixes/prefixes to compare
-            const propBase = prop
-              .name
-              .replace(/^(get|set|use)/, '')
-              .toLowerCase();
-            const ctxBase = ctx
-              .name
-              .replace(/^(get|set|use)|\(\)$/g, '')
-              .toLowerCase();
-            return propBase === ctxBase || propBase.includes(ctxBase) || ctxBase.includes(propBase);
-          });
+      const isForwarded = (path : any) => {
+        const attribute = path.parentPath
+          ?.parentPath;
+        return t.isJSXExpressionContainer(path.parent) && !!attribute && t.isJSXAttribute(attribute.node) && isComponentElement(attribute.parent);
+      };
 
-          if (similarContext) {
-            const conflictId = `${component.name}-${prop.name}-conflict`;
-            if (!conflicts.find(c => c.id === conflictId)) {
-              conflicts.push({
+      const isSpreadForwarded = (path : any) => t.isJSXSpreadAttribute(path.parent) && isComponentElement(path.parentPath.parent);
+
+      const record = (path : any, propName : string) => {
+        if (!propNames.includes(propName)) 
+          return;
+        if (isForwarded(path)) {
+          forwarded.add(propName);
+        } else {
+          read.add(propName);
+        }
+      };
+
+      try {
+        traverse(node, {
+          noScope: true,
+
+          MemberExpression: (path) => {
+            if (isPropsObject(path.node) && isSpreadForwarded(path)) {
+              propNames.forEach(propName => forwarded.add(propName));
+              path.skip();
+              return;
+            }
+            if (!isPropsObject(path.node.object)) 
+              return;
+            if (!path.node.computed && t.isIdentifier(path.node.property)) {
+              record(path, path.node.property.name);
+            } else {
+              readsAllProps = true;
+            }
+            path.skip();
+          },
+
+          Identifier: (path) => {
+            if (!path.isReferencedIdentifier()) 
+              return;
+            if (path.node.name === 'props') {
+              // const {label, ...rest} = props: the names are tracked one by one
+              if (t.isVariableDeclarator(path.parent) && path.parent.init === path.node && t.isObjectPattern(path.parent.id)) 
+                return;
+              // props spread into a child, or otherwise used as a whole
+              if (isSpreadForwarded(path)) {
+                propNames.forEach(propName => forwarded.add(propName));
+              } else {
+                readsAllProps = true;
+              }
+              return;
+            }
+            const restName = `...${path.node.name}`;
+            if (propNames.includes(restName)) {
+              if (isSpreadForwarded(path)) {
+                forwarded.add(restName);
+              } else {
+                read.add(restName);
+              }
+              return;
+            }
+            record(path, path.node.name);
+          }
+        });
+      } catch (error) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Error checking prop usage: ${error}`);
+        return;
+      }
+
+      if (readsAllProps) 
+        return;
+      items.forEach(item => {
+        const forwardedName = item.restOf
+          ? `...${item.restOf}`
+          : item.name;
+        if ((item.type === 'prop' || item.type === 'prop-function') && forwarded.has(forwardedName) && !read.has(forwardedName)) {
+          item.passThrough = true;
+        }
+      });
+    }
+
+    // Identifiers read within a component, plus keys read from this.state. `props`
+    // is included only when the props object is used as a whole
+    private collectReadNames(node : t.Node | null | undefined) : Set < string > {
+      const names = new Set < string > ();
+      if (!node) 
+        return names;
+      
+      const isThisMember = (n : t.Node | null | undefined, property : string) => t.isMemberExpression(n) && t.isThisExpression(n.object) && t.isIdentifier(n.property, {name: property});
+
+      try {
+        traverse(node, {
+          noScope: true,
+
+          Identifier: (path) => {
+            if (!path.isReferencedIdentifier()) 
+              return;
+            if (path.node.name === 'props' && t.isMemberExpression(path.parent) && path.parent.object === path.node && !path.parent.computed) 
+              return;
+            names.add(path.node.name);
+          },
+
+          MemberExpression: (path) => {
+            const {object, property} = path.node;
+            // this.state.value
+            if (isThisMember(object, 'state') && t.isIdentifier(property) && !path.node.computed) {
+              names.add(property.name);
+            }
+            // {...this.props}, or this.props passed on
+            if (isThisMember(path.node, 'props') && !(t.isMemberExpression(path.parent) && path.parent.object === path.node) && !(t.isVariableDeclarator(path.parent) && t.isObjectPattern(path.parent.id))) {
+              names.add('props');
+            }
+          },
+
+          // const {value} = this.state
+          VariableDeclarator: (path) => {
+            if (isThisMember(path.node.init, 'state') && t.isObjectPattern(path.node.id)) {
+              path
+                .node
+                .id
+                .properties
+                .forEach(prop => {
+                  if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+                    names.add(prop.key.name);
+                  }
+                });
+            }
+          }
+        });
+      } catch (error) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Error collecting references: ${error}`);
+      }
+
+      return names;
+    }
+
+    private findPropsTypeAnnotation(node : any) : t.TSType | null {
+      const fn = t.isVariableDeclarator(node)
+        ? node.init
+        : node;
+
+      // Annotated first parameter: (props: Props) or ({a, b}: Props)
+      if (t.isFunction(fn) && fn.params.length > 0) {
+        const firstParam = fn.params[0];
+        if ((t.isIdentifier(firstParam) || t.isObjectPattern(firstParam)) && t.isTSTypeAnnotation(firstParam.typeAnnotation)) {
+          return firstParam.typeAnnotation.typeAnnotation;
+        }
+      }
+
+      // Annotated variable: const Component: React.FC<Props> = ...
+      if (t.isVariableDeclarator(node) && t.isIdentifier(node.id) && t.isTSTypeAnnotation(node.id.typeAnnotation)) {
+        const annotation = node.id.typeAnnotation.typeAnnotation;
+        if (t.isTSTypeReference(annotation) && annotation.typeParameters && annotation.typeParameters.params.length > 0 && COMPONENT_TYPE_NAMES.includes(this.getEntityName(annotation.typeName))) {
+          return annotation.typeParameters.params[0];
+        }
+      }
+
+      return null;
+    }
+
+    private resolveTypeMembers(typeNode : t.Node | null | undefined, scope : FileScope, seen : Set < string >) : PropDefinition[] {
+      if(!typeNode) 
+        return [];
+      
+      if (t.isTSParenthesizedType(typeNode)) {
+        return this.resolveTypeMembers(typeNode.typeAnnotation, scope, seen);
+      }
+
+      // Inline object type: {title: string; size?: number}
+      if (t.isTSTypeLiteral(typeNode)) {
+        return this.membersFromSignatures(typeNode.members, scope);
+      }
+
+      // interface Props extends BaseProps {...}
+      if (t.isTSInterfaceDeclaration(typeNode)) {
+        const inherited = (typeNode.extends || []).reduce((acc : PropDefinition[], heritage) => this.mergePropDefinitions(acc, this.resolveTypeReference(heritage.expression, heritage.typeParameters, scope, seen)), []);
+        return this.mergePropDefinitions(inherited, this.membersFromSignatures(typeNode.body.body, scope));
+      }
+
+      if (t.isTSTypeAliasDeclaration(typeNode)) {
+        return this.resolveTypeMembers(typeNode.typeAnnotation, scope, seen);
+      }
+
+      // BaseProps & {extra: string}
+      if (t.isTSIntersectionType(typeNode)) {
+        return typeNode
+          .types
+          .reduce((acc : PropDefinition[], part) => this.mergePropDefinitions(acc, this.resolveTypeMembers(part, scope, seen)), []);
+      }
+
+      // A | B: props missing from any branch are optional
+      if (t.isTSUnionType(typeNode)) {
+        const branches = typeNode
+          .types
+          .map(part => this.resolveTypeMembers(part, scope, seen))
+          .filter(branch => branch.length > 0);
+        const merged = branches.reduce((acc, branch) => this.mergePropDefinitions(acc, branch), []);
+        return merged.map(prop => branches.every(branch => branch.some(p => p.name === prop.name))
+          ? prop
+          : {
+            ...prop,
+            optional: true
+          });
+      }
+
+      if (t.isTSTypeReference(typeNode)) {
+        return this.resolveTypeReference(typeNode.typeName, typeNode.typeParameters, scope, seen);
+      }
+
+      return [];
+    }
+
+    private resolveTypeReference(typeName : t.TSEntityName, typeParameters : t.TSTypeParameterInstantiation | null | undefined, scope : FileScope, seen : Set < string >) : PropDefinition[] {
+      const name = this.getEntityName(typeName);
+      const args = typeParameters
+        ? typeParameters.params
+        : [];
+
+      // Utility types from React and the TypeScript standard library
+      switch (name) {
+        case 'PropsWithChildren':
+          return this.mergePropDefinitions(this.resolveTypeMembers(args[0], scope, seen), [
+            {
+              name: 'children',
+              valueType: 'ReactNode',
+              optional: true
+            }
+          ]);
+        case 'Partial':
+          return this
+            .resolveTypeMembers(args[0], scope, seen)
+            .map(prop => ({
+              ...prop,
+              optional: true
+            }));
+        case 'Required':
+          return this
+            .resolveTypeMembers(args[0], scope, seen)
+            .map(prop => ({
+              ...prop,
+              optional: false
+            }));
+        case 'Readonly':
+          return this.resolveTypeMembers(args[0], scope, seen);
+        case 'Pick':
+          {
+            const keys = this.literalKeys(args[1]);
+            return this
+              .resolveTypeMembers(args[0], scope, seen)
+              .filter(prop => keys.includes(prop.name));
+          }
+        case 'Omit':
+          {
+            const keys = this.literalKeys(args[1]);
+            return this
+              .resolveTypeMembers(args[0], scope, seen)
+              .filter(prop => !keys.includes(prop.name));
+          }
+      }
+
+      const found = this.lookupTypeDeclaration(name, scope, 0);
+      if (!found) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`  Could not resolve props type: ${name}`);
+        return [];
+      }
+
+      // Guard against recursive types
+      const key = `${found.scope.filePath}#${name}`;
+      if (seen.has(key)) 
+        return [];
+      seen.add(key);
+
+      return this.resolveTypeMembers(found.declaration, found.scope, seen);
+    }
+
+    private lookupTypeDeclaration(name : string, scope : FileScope, depth : number) : {
+      declaration: t.TSInterfaceDeclaration | t.TSTypeAliasDeclaration;
+      scope: FileScope
+    } | null {
+      const local = scope
+        .typeDeclarations
+        .get(name);
+      if (local) {
+        return {declaration: local, scope};
+      }
+
+      // Follow imports and re-exports into other files
+      const imported = scope
+        .imports
+        .get(name);
+      if (imported && depth < 10) {
+        const importedScope = this.loadFileScope(imported.resolvedPath, true);
+        if (importedScope) {
+          return this.lookupTypeDeclaration(imported.importedName, importedScope, depth + 1);
+        }
+      }
+      for (const source of depth < 10
+        ? scope.exportAll
+        : []) {
+        const sourceScope = this.loadFileScope(source, true);
+        const found = sourceScope && this.lookupTypeDeclaration(name, sourceScope, depth + 1);
+        if (found) 
+          return found;
+      }
+
+      return null;
+    }
+
+    private membersFromSignatures(members : t.TSTypeElement[], scope : FileScope) : PropDefinition[] {
+      const props : PropDefinition[] = [];
+
+      members.forEach(member => {
+        if (!t.isTSPropertySignature(member) && !t.isTSMethodSignature(member)) 
+          return;
+        
+        const name = t.isIdentifier(member.key)
+          ? member.key.name
+          : t.isStringLiteral(member.key)
+            ? member.key.value
+            : null;
+        if (!name) 
+          return;
+        
+        let valueType : string | undefined;
+        if (t.isTSPropertySignature(member) && member.typeAnnotation) {
+          valueType = this.sourceText(member.typeAnnotation.typeAnnotation, scope.code);
+        } else if (t.isTSMethodSignature(member)) {
+          // onSave(value: string): void -> (value: string): void
+          valueType = this
+            .sourceText(member, scope.code)
+            .replace(/^[^(<]*/, '')
+            .replace(/;$/, '');
+        }
+
+        props.push({
+          name,
+          valueType,
+          optional: !!member.optional
+        });
+      });
+
+      return props;
+    }
+
+    private mergePropDefinitions(base : PropDefinition[], extra : PropDefinition[]) : PropDefinition[] {
+      const merged = [...base];
+      extra.forEach(prop => {
+        const index = merged.findIndex(p => p.name === prop.name);
+        if (index >= 0) {
+          merged[index] = prop;
+        } else {
+          merged.push(prop);
+        }
+      });
+      return merged;
+    }
+
+    private literalKeys(node : t.Node | undefined) : string[] {
+      if(t.isTSLiteralType(node) && t.isStringLiteral(node.literal)) 
+        return [node.literal.value];
+      if (t.isTSUnionType(node)) 
+        return node.types.flatMap(part => this.literalKeys(part));
+      return [];
+    }
+
+    private getEntityName(typeName : t.TSEntityName) : string {
+      // React.FC -> FC
+      return t.isIdentifier(typeName)
+        ? typeName.name
+        : typeName.right.name;
+    }
+
+    private sourceText(node : t.Node, code : string) : string {
+      return code
+        .slice(node.start ?? 0, node.end ?? 0)
+        .replace(/\s+/g, ' ')
+        .trim();
+    }
+
+    private buildFileScope(ast : t.File, code : string, filePath : string) : FileScope {
+      const scope : FileScope = {
+        filePath,
+        code,
+        typeDeclarations: new Map(),
+        imports: new Map(),
+        defaultProps: new Map(),
+        contexts: new Map(),
+        stores: new Map(),
+        connections: new Map(),
+        serverHooks: new Map(),
+        operations: new Map(),
+        exportAll: []
+      };
+
+      // Next.js boundaries: 'use client' modules and their imports run on the client
+      const directive = ast
+        .program
+        .directives
+        .map(node => node.value.value)
+        .find(value => value === 'use client' || value === 'use server');
+      if (directive) {
+        scope.directive = directive === 'use client'
+          ? 'client'
+          : 'server';
+      }
+
+      // Store factories imported here: local name -> library and imported name
+      const storeFactories = new Map < string, {
+        library: StoreLibrary;
+        importedName: string
+      } > ();
+      const functions = new Map < string,
+        t.Node > ();
+      const connectCalls : {
+        component: string;
+        mapState?: t.Node;
+        mapDispatch?: t.Node
+      }[] = [];
+
+      const objectText = (object : t.ObjectExpression) => {
+        const values = new Map < string,
+          string > ();
+        object
+          .properties
+          .forEach(prop => {
+            if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+              values.set(prop.key.name, this.sourceText(prop.value, code));
+            }
+          });
+        return values;
+      };
+
+      traverse(ast, {
+        ImportDeclaration: (path) => {
+          const source = path.node.source.value;
+          const serverLibrary = SERVER_STATE_LIBRARIES[source];
+          if (serverLibrary) {
+            // useSWR and useSWRMutation are default exports
+            path
+              .node
+              .specifiers
+              .forEach(spec => {
+                const importedName = t.isImportDefaultSpecifier(spec)
+                  ? (source === 'swr/mutation'
+                    ? 'useSWRMutation'
+                    : 'useSWR')
+                  : t.isImportSpecifier(spec)
+                    ? (t.isIdentifier(spec.imported)
+                      ? spec.imported.name
+                      : spec.imported.value)
+                    : undefined;
+                const kind = importedName
+                  ? SERVER_STATE_HOOKS[importedName]
+                  : undefined;
+                if (kind) {
+                  scope
+                    .serverHooks
+                    .set(spec.local.name, {library: serverLibrary, kind});
+                }
+              });
+            return;
+          }
+          const library = STORE_LIBRARIES[source];
+          if (library) {
+            path
+              .node
+              .specifiers
+              .forEach(spec => {
+                if (t.isImportSpecifier(spec)) {
+                  storeFactories.set(spec.local.name, {
+                    library,
+                    importedName: t.isIdentifier(spec.imported)
+                      ? spec.imported.name
+                      : spec.imported.value
+                  });
+                } else if (t.isImportDefaultSpecifier(spec)) {
+                  storeFactories.set(spec.local.name, {library, importedName: 'default'});
+                }
+              });
+            return;
+          }
+          const resolvedPath = this.resolveImportPath(filePath, source);
+          if (!resolvedPath) 
+            return;
+          
+          path
+            .node
+            .specifiers
+            .forEach(spec => {
+              if (t.isImportSpecifier(spec)) {
+                const importedName = t.isIdentifier(spec.imported)
+                  ? spec.imported.name
+                  : spec.imported.value;
+                scope
+                  .imports
+                  .set(spec.local.name, {importedName, resolvedPath});
+              } else if (t.isImportDefaultSpecifier(spec)) {
+                scope
+                  .imports
+                  .set(spec.local.name, {importedName: 'default', resolvedPath});
+              }
+            });
+        },
+
+        // export {Props} from './types'
+        ExportNamedDeclaration: (path) => {
+          const source = path.node.source
+            ?.value;
+          if (!source) 
+            return;
+          const resolvedPath = this.resolveImportPath(filePath, source);
+          if (!resolvedPath) 
+            return;
+          
+          path
+            .node
+            .specifiers
+            .forEach(spec => {
+              if (t.isExportSpecifier(spec)) {
+                const exportedName = t.isIdentifier(spec.exported)
+                  ? spec.exported.name
+                  : spec.exported.value;
+                scope
+                  .imports
+                  .set(exportedName, {importedName: spec.local.name, resolvedPath});
+              }
+            });
+        },
+
+        // const AuthContext = createContext(defaultValue)
+        VariableDeclarator: (path) => {
+          const init = path.node.init;
+          if (t.isIdentifier(path.node.id) && t.isCallExpression(init) && this.getWrapperName(init.callee) === 'createContext') {
+            const defaultArg = init.arguments[0];
+            scope
+              .contexts
+              .set(path.node.id.name, {
+                defaultValue: defaultArg
+                  ? this.sourceText(defaultArg, code)
+                  : undefined
+              });
+          }
+
+          // const useCartStore = create(...), const countAtom = atom(0), const todosSlice =
+          // createSlice({...})
+          const factoryName = t.isCallExpression(init)
+            ? this.getWrapperName(init.callee)
+            : null;
+          const factory = factoryName
+            ? storeFactories.get(factoryName)
+            : undefined;
+          if (t.isIdentifier(path.node.id) && t.isCallExpression(init) && factory) {
+            const declaration = this.storeDeclaration(path.node.id.name, factory.importedName, factory.library, init, scope);
+            if (declaration) {
+              scope
+                .stores
+                .set(path.node.id.name, declaration);
+            }
+          }
+
+          if (t.isIdentifier(path.node.id) && init && (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init) || t.isObjectExpression(init))) {
+            functions.set(path.node.id.name, init);
+          }
+
+          // const GET_TODOS = gql`query GetTodos { ... }`
+          if (t.isIdentifier(path.node.id) && t.isTaggedTemplateExpression(init) && t.isIdentifier(init.tag) && ['gql', 'graphql'].includes(init.tag.name)) {
+            const operation = init
+              .quasi
+              .quasis
+              .map(quasi => quasi.value.raw)
+              .join('')
+              .match(/\b(?:query|mutation|subscription)\s+(\w+)/);
+            scope
+              .operations
+              .set(path.node.id.name, operation
+                ? operation[1]
+                : path.node.id.name);
+          }
+        },
+
+        FunctionDeclaration: (path) => {
+          if (path.node.id) {
+            functions.set(path.node.id.name, path.node);
+          }
+        },
+
+        // connect(mapStateToProps, mapDispatchToProps)(TodoList)
+        CallExpression: (path) => {
+          const {callee, arguments: args} = path.node;
+          if (t.isCallExpression(callee) && this.getWrapperName(callee.callee) === 'connect' && storeFactories.has('connect') && t.isIdentifier(args[0])) {
+            connectCalls.push({component: args[0].name, mapState: callee.arguments[0], mapDispatch: callee.arguments[1]});
+          }
+        },
+
+        ExportDefaultDeclaration: (path) => {
+          if (t.isIdentifier(path.node.declaration)) {
+            scope.defaultExport = path.node.declaration.name;
+          }
+        },
+
+        // export * from './Button'
+        ExportAllDeclaration: (path) => {
+          const source = path.node.source.value;
+          const resolvedPath = this.resolveImportPath(filePath, source);
+          if (resolvedPath) {
+            scope
+              .exportAll
+              .push(resolvedPath);
+          }
+        },
+
+        TSInterfaceDeclaration: (path) => {
+          scope
+            .typeDeclarations
+            .set(path.node.id.name, path.node);
+          if (t.isExportDefaultDeclaration(path.parent)) {
+            scope
+              .typeDeclarations
+              .set('default', path.node);
+          }
+        },
+
+        TSTypeAliasDeclaration: (path) => {
+          scope
+            .typeDeclarations
+            .set(path.node.id.name, path.node);
+        },
+
+        // Component.defaultProps = {...}
+        AssignmentExpression: (path) => {
+          const left = path.node.left;
+          if (t.isMemberExpression(left) && t.isIdentifier(left.object) && t.isIdentifier(left.property) && left.property.name === 'defaultProps' && t.isObjectExpression(path.node.right)) {
+            scope
+              .defaultProps
+              .set(left.object.name, objectText(path.node.right));
+          }
+        },
+
+        // static defaultProps = {...}
+        ClassProperty: (path) => {
+          const classNode = path.parentPath.parent;
+          if (path.node.static && t.isIdentifier(path.node.key) && path.node.key.name === 'defaultProps' && t.isObjectExpression(path.node.value) && t.isClassDeclaration(classNode) && classNode.id) {
+            scope
+              .defaultProps
+              .set(classNode.id.name, objectText(path.node.value));
+          }
+        }
+      });
+
+      // mapStateToProps and mapDispatchToProps are usually declared apart
+      connectCalls.forEach(call => {
+        const resolve = (node : t.Node | undefined) => t.isIdentifier(node)
+          ? functions.get(node.name)
+          : node;
+        scope
+          .connections
+          .set(call.component, {
+            stateProps: this.mappedStateProps(resolve(call.mapState)),
+            dispatchProps: this.mappedDispatchProps(resolve(call.mapDispatch))
+          });
+      });
+
+      return scope;
+    }
+
+    // The store, slice or atom created by a store library call, or null for other
+    // calls of the library
+    private storeDeclaration(localName : string, factory : string, library : StoreLibrary, init : t.CallExpression, scope : FileScope) : StoreDeclaration | null {
+      const objectKeys = (node : t.Node | undefined) => t.isObjectExpression(node)
+        ? node
+          .properties
+          .filter(prop => (t.isObjectProperty(prop) || t.isObjectMethod(prop)) && t.isIdentifier(prop.key))
+          .map(prop => ((prop as t.ObjectProperty).key as t.Identifier).name)
+        : [];
+      const option = (name : string) => {
+        const options = init.arguments[0];
+        if (!t.isObjectExpression(options)) 
+          return undefined;
+        const prop = options
+          .properties
+          .find(p => t.isObjectProperty(p) && t.isIdentifier(p.key, {name}));
+        return prop && t.isObjectProperty(prop)
+          ? prop.value
+          : undefined;
+      };
+
+      if (library === 'zustand' && (factory === 'create' || factory === 'default' || factory === 'createStore')) {
+        // create((set) => ({...})), create<State>()(...), create(persist((set) => ({...})))
+        let creator : t.Node | undefined = init.arguments[0];
+        while (t.isCallExpression(creator)) {
+          creator = creator.arguments[0];
+        }
+        const fn = creator && (t.isArrowFunctionExpression(creator) || t.isFunctionExpression(creator))
+          ? creator
+          : null;
+        const body = fn && t.isBlockStatement(fn.body)
+          ? (fn.body.body.find(statement => t.isReturnStatement(statement)) as t.ReturnStatement | undefined)
+            ?.argument
+          : fn
+            ?.body;
+        const state : string[] = [];
+        const actions : string[] = [];
+        if (t.isObjectExpression(body)) {
+          body
+            .properties
+            .forEach(prop => {
+              if (t.isObjectMethod(prop) && t.isIdentifier(prop.key)) {
+                actions.push(prop.key.name);
+              } else if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+                (this.callbackFunction(prop.value)
+                  ? actions
+                  : state).push(prop.key.name);
+              }
+            });
+        }
+        return {library, kind: 'store', name: localName, state, actions};
+      }
+
+      if ((library === 'jotai' && factory === 'atom') || (library === 'recoil' && (factory === 'atom' || factory === 'selector'))) {
+        return {library, kind: 'atom', name: localName, state: [], actions: []};
+      }
+
+      if (library === 'redux' && factory === 'createSlice') {
+        const sliceName = option('name');
+        return {
+          library,
+          kind: 'slice',
+          name: t.isStringLiteral(sliceName)
+            ? sliceName.value
+            : localName.replace(/Slice$/, ''),
+          state: objectKeys(option('initialState')),
+          actions: objectKeys(option('reducers'))
+        };
+      }
+
+      if (library === 'redux' && (factory === 'configureStore' || factory === 'createStore' || factory === 'legacy_createStore' || factory === 'combineReducers')) {
+        // configureStore({reducer: {todos}}), createStore(rootReducer), combineReducers({todos})
+        const reducer = factory === 'configureStore'
+          ? option('reducer')
+          : init.arguments[0];
+        const reducerMap = t.isIdentifier(reducer)
+          ? scope
+            .stores
+            .get(reducer.name)
+          : undefined;
+        return {
+          library,
+          kind: factory === 'combineReducers'
+            ? 'reducers'
+            : 'store',
+          name: localName,
+          state: reducerMap
+            ? reducerMap.state
+            : objectKeys(reducer),
+          actions: []
+        };
+      }
+
+      return null;
+    }
+
+    private objectOption(object : t.ObjectExpression, name : string) : t.Node | undefined {
+      const prop = object
+        .properties
+        .find(p => t.isObjectProperty(p) && t.isIdentifier(p.key, {name}));
+      return prop && t.isObjectProperty(prop)
+        ? prop.value
+        : undefined;
+    }
+
+    // A comparable cache key: ['todos', id] -> todos/*, `/api/users/${id}` ->
+    // /api/users/*, GET_TODOS -> GetTodos, the operation it declares
+    private queryKey(node : t.Node | null | undefined, scope : FileScope) : string | undefined {
+      if (!node) 
+        return undefined;
+      if (t.isStringLiteral(node)) 
+        return node.value;
+      if (t.isTemplateLiteral(node)) {
+        return node
+          .quasis
+          .map(quasi => quasi.value.raw)
+          .join('*');
+      }
+      if (t.isArrayExpression(node)) {
+        return node
+          .elements
+          .map(element => t.isStringLiteral(element) || t.isNumericLiteral(element)
+            ? String(element.value)
+            : '*')
+          .join('/');
+      }
+      // useSWR(id ? `/api/users/${id}` : null), useSWR(() => '/api/user')
+      if (t.isConditionalExpression(node)) 
+        return this.queryKey(node.consequent, scope);
+      if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) 
+        return this.queryKey(this.returnedExpression(node), scope);
+      if (t.isIdentifier(node)) {
+        const operationId = this.resolveDeclarationId(scope.filePath, node.name, 'operations', 0);
+        if (!operationId) 
+          return node.name;
+        const hash = operationId.lastIndexOf('#');
+        return this
+          .loadFileScope(operationId.slice(0, hash))
+          ?.operations
+            .get(operationId.slice(hash + 1)) || node.name;
+      }
+      return this.sourceText(node, scope.code);
+    }
+
+    // Keys a mutation's options invalidate: onSuccess: () =>
+    // queryClient.invalidateQueries({queryKey: ['todos']}), refetchQueries: [GET_TODOS]
+    private invalidatedKeys(args : t.Node[], scope : FileScope) : string[] {
+      const keys : string[] = [];
+      const add = (key : string | undefined) => {
+        if (key && !keys.includes(key)) {
+          keys.push(key);
+        }
+      };
+      const cacheMethods = ['invalidateQueries', 'refetchQueries', 'resetQueries', 'removeQueries', 'setQueryData', 'mutate'];
+
+      args.forEach(arg => {
+        if (!t.isExpression(arg)) 
+          return;
+        try {
+          traverse(this.expressionFunction(arg), {
+            noScope: true,
+            CallExpression: (path) => {
+              const callee = path.node.callee;
+              const method = t.isMemberExpression(callee) && t.isIdentifier(callee.property)
+                ? callee.property.name
+                : t.isIdentifier(callee)
+                  ? callee.name
+                  : undefined;
+              const keyArg = path.node.arguments[0];
+              if (!method || !cacheMethods.includes(method) || !keyArg) 
+                return;
+              // The bound mutate() of useSWR takes data, not a key
+              if (method === 'mutate' && !(t.isStringLiteral(keyArg) || t.isTemplateLiteral(keyArg) || t.isArrayExpression(keyArg))) 
+                return;
+              add(this.queryKey(t.isObjectExpression(keyArg)
+                ? this.objectOption(keyArg, 'queryKey')
+                : keyArg, scope));
+            },
+            // Apollo: refetchQueries: [GET_TODOS, 'GetUser']
+            ObjectProperty: (path) => {
+              if (t.isIdentifier(path.node.key, {name: 'refetchQueries'}) && t.isArrayExpression(path.node.value)) {
+                path
+                  .node
+                  .value
+                  .elements
+                  .forEach(element => add(this.queryKey(t.isObjectExpression(element)
+                    ? this.objectOption(element, 'query')
+                    : element, scope)));
+              }
+            }
+          });
+        } catch (error) {
+          this
+            .debugInfo
+            .analysisLog
+            .push(`Error analyzing mutation options: ${error}`);
+        }
+      });
+      return keys;
+    }
+
+    // mapStateToProps: (state) => ({todos: state.todos.items}) -> todos: todos
+    private mappedStateProps(mapState : t.Node | undefined) : Map < string,
+    string > {
+      const props = new Map < string,
+        string > ();
+      if (!mapState || !(t.isArrowFunctionExpression(mapState) || t.isFunctionExpression(mapState) || t.isFunctionDeclaration(mapState))) 
+        return props;
+      
+      const mapped = this.returnedExpression(mapState);
+      if (!t.isObjectExpression(mapped)) 
+        return props;
+      mapped
+        .properties
+        .forEach(prop => {
+          if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+            const slice = this.selectedSlice(mapState.params[0], prop.value);
+            if (slice) {
+              props.set(prop.key.name, slice);
+            }
+          }
+        });
+      return props;
+    }
+
+    // mapDispatchToProps: {onAdd: addTodo}, or (dispatch) => ({onAdd: text =>
+    // dispatch(addTodo(text))})
+    private mappedDispatchProps(mapDispatch : t.Node | undefined) : Map < string,
+    string > {
+      const props = new Map < string,
+        string > ();
+      const isFunction = !!mapDispatch && (t.isArrowFunctionExpression(mapDispatch) || t.isFunctionExpression(mapDispatch) || t.isFunctionDeclaration(mapDispatch));
+      const mapped = isFunction
+        ? this.returnedExpression(mapDispatch as t.Function)
+        : mapDispatch;
+      if (!t.isObjectExpression(mapped)) 
+        return props;
+      
+      const dispatchParam = isFunction && t.isIdentifier((mapDispatch as t.Function).params[0])
+        ? ((mapDispatch as t.Function).params[0] as t.Identifier).name
+        : undefined;
+      mapped
+        .properties
+        .forEach(prop => {
+          if (!t.isObjectProperty(prop) || !t.isIdentifier(prop.key)) 
+            return;
+          const propName = prop.key.name;
+          const fn = this.callbackFunction(prop.value);
+          if (!fn) {
+            const action = this.actionName(prop.value);
+            if (action) {
+              props.set(propName, action);
+            }
+            return;
+          }
+          try {
+            traverse(fn, {
+              noScope: true,
+              CallExpression: (path) => {
+                const action = t.isIdentifier(path.node.callee, {name: dispatchParam}) && path.node.arguments[0]
+                  ? this.actionName(path.node.arguments[0])
+                  : undefined;
+                if (action && !props.has(propName)) {
+                  props.set(propName, action);
+                }
+              }
+            });
+          } catch (error) {
+            this
+              .debugInfo
+              .analysisLog
+              .push(`Error analyzing mapDispatchToProps: ${error}`);
+          }
+        });
+      return props;
+    }
+
+    // The expression a function returns at its top level
+    private returnedExpression(fn : t.Function) : t.Node | null | undefined {
+      if (!t.isBlockStatement(fn.body)) 
+        return fn.body;
+      const returned = fn
+        .body
+        .body
+        .find(statement => t.isReturnStatement(statement)) as t.ReturnStatement | undefined;
+      return returned
+        ?.argument;
+    }
+
+    // The slice a selector reads: state => state.todos.items and ({todos}) => todos
+    // select todos; a named selector such as selectTodos is matched by its name
+    private selectedSlice(param : t.Node | undefined, expr : t.Node | undefined) : string | undefined {
+      if (!expr) 
+        return undefined;
+      if (t.isObjectPattern(param)) {
+        const first = param
+          .properties
+          .find(prop => t.isObjectProperty(prop) && t.isIdentifier(prop.key));
+        return first && t.isObjectProperty(first) && t.isIdentifier(first.key)
+          ? first.key.name
+          : undefined;
+      }
+      if (!t.isIdentifier(param)) 
+        return undefined;
+      
+      const stateName = param.name;
+      let slice : string | undefined;
+      try {
+        traverse(this.expressionFunction(expr as t.Expression), {
+          noScope: true,
+          MemberExpression: (path) => {
+            const {object, property} = path.node;
+            if (!slice && t.isIdentifier(object, {name: stateName}) && t.isIdentifier(property) && !path.node.computed) {
+              slice = property.name;
+            }
+          }
+        });
+      } catch (error) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Error analyzing selector: ${error}`);
+      }
+      return slice;
+    }
+
+    // The slice selected by a useSelector argument or a Zustand store hook argument
+    private selectorSlice(selector : t.Node | undefined) : string | undefined {
+      if (t.isIdentifier(selector)) {
+        const name = selector
+          .name
+          .replace(/^select/, '');
+        return name.charAt(0).toLowerCase() + name.slice(1);
+      }
+      if (t.isArrowFunctionExpression(selector) || t.isFunctionExpression(selector)) {
+        return this.selectedSlice(selector.params[0], this.returnedExpression(selector) || undefined);
+      }
+      return undefined;
+    }
+
+    // The action a dispatch call sends: addTodo(text), todosSlice.actions.add() or
+    // {type: 'todos/add'}
+    private actionName(node : t.Node) : string | undefined {
+      const target = t.isCallExpression(node)
+        ? node.callee
+        : node;
+      if (t.isIdentifier(target)) 
+        return target.name;
+      if (t.isMemberExpression(target) && t.isIdentifier(target.property) && !target.computed) 
+        return target.property.name;
+      if (t.isObjectExpression(target)) {
+        const type = target
+          .properties
+          .find(prop => t.isObjectProperty(prop) && t.isIdentifier(prop.key, {name: 'type'}));
+        return type && t.isObjectProperty(type) && t.isStringLiteral(type.value)
+          ? type.value.value
+          : undefined;
+      }
+      return undefined;
+    }
+
+    private loadFileScope(filePath : string, withTypes = false) : FileScope | null {
+      const cached = this
+        .fileScopes
+        .get(filePath);
+      if (cached !== undefined && !(withTypes && cached?.partial)) 
+        return cached;
+      
+      let scope : FileScope | null = null;
+      try {
+        const code = fs.readFileSync(filePath, 'utf-8');
+        const ast = parse(code, {
+          sourceType: 'module',
+          plugins: ['jsx', 'typescript', 'decorators-legacy', 'classProperties']
+        });
+        scope = this.buildFileScope(ast, code, filePath);
+      } catch (error) {
+        this
+          .debugInfo
+          .parseErrors
+          .push(`Error loading types from ${filePath}: ${error}`);
+      }
+
+      this
+        .fileScopes
+        .set(filePath, scope);
+      return scope;
+    }
+
+    private analyzeJSXFlows(summaries : FileSummary[]) : DataFlow[] {
+      const flows: DataFlow[] = [];
+      const flowIdCounter = new Map < string,
+        number > ();
+      const spreads : {
+        parent: ComponentData;
+        child: ComponentData;
+        argument: t.Node
+      }[] = [];
+
+      summaries.forEach(summary => {
+        try {
+          this.applyJSXUsage(summary.filePath, summary.jsx, flows, spreads);
+        } catch (error) {
+          this
+            .debugInfo
+            .analysisLog
+            .push(`Error analyzing JSX flows in ${summary.filePath}: ${error}`);
+        }
+      });
+
+      // A spread can forward rest props that another spread has yet to expand, so
+      // repeat until nothing changes
+      let changed = spreads.length > 0;
+      for (let pass = 0; changed && pass <= spreads.length; pass++) {
+        changed = false;
+        spreads.forEach(spread => {
+          this
+            .spreadEntries(spread.parent, spread.argument)
+            .forEach(entry => {
+              if (this.connectProp(flows, spread.parent, entry.item, spread.child, entry.key)) {
+                changed = true;
+              }
+            });
+        });
+      }
+
+      return flows;
+    }
+
+    // Links what a file renders to the components its tags resolve to
+    private applyJSXUsage(filePath : string, usage : FileJSXUsage, flows : DataFlow[], spreads : {
+      parent: ComponentData;
+      child: ComponentData;
+      argument: t.Node
+    }[]) {
+      const component = (id : string) => this
+        .componentIndex
+        .get(id);
+      // Resolve the tag through this file's imports to its definition
+      const tag = (name : string) => this.findComponent(filePath, name);
+
+      usage
+        .usages
+        .forEach(use => {
+          const child = tag(use.child);
+          if (child) {
+            this
+              .renderUsages
+              .push({child, props: use.props, spreadsProps: use.spreadsProps});
+          }
+        });
+      usage
+        .renders
+        .forEach(render => {
+          const parentComponent = component(render.parent);
+          const child = tag(render.child);
+          if (!parentComponent || !child) 
+            return;
+          this
+            .debugInfo
+            .analysisLog
+            .push(`Found JSX: ${parentComponent.name} renders ${child.name}`);
+
+          // Children passed to another component (<AuthProvider><App /></AuthProvider>)
+          // render below that component in the tree
+          const enclosing = render
+            .enclosing
+            .map(tag)
+            .find(found => found);
+          const parent = enclosing || parentComponent;
+          this
+            .renderRelations
+            .push({parent, child});
+          this.addRenderEdge(parent, child, render.context);
+        });
+      usage
+        .props
+        .forEach(prop => {
+          const parent = component(prop.parent);
+          const child = tag(prop.child);
+          if (parent && child) {
+            // The type checker tells a state or prop from a local of the same name
+            const bindingName = prop.value !== undefined
+              ? this
+                .symbols
+                ?.bindingName(filePath, prop.value)
+              : undefined;
+            const parentItem = bindingName !== undefined
+              ? parent
+                .items
+                .find(item => item.name === bindingName)
+              : prop.item
+                ? parent
+                  .items
+                  .find(item => item.id === prop.item)
+                : undefined;
+            this.connectProp(flows, parent, parentItem, child, prop.propName);
+            if (prop.unserializable && this.crossesToClient(parent, child)) {
+              this
+                .serverProps
+                .push({parent, child, propName: prop.propName, unserializable: prop.unserializable, range: prop.range});
+            }
+          }
+        });
+      usage
+        .spreads
+        .forEach(spread => {
+          const parent = component(spread.parent);
+          const child = tag(spread.child);
+          if (parent && child) {
+            spreads.push({parent, child, argument: spread.argument});
+          }
+        });
+    }
+
+    // Finds the tags a file renders within its components and what it passes them
+    private collectJSXUsage(ast : t.File, filePath : string, code : string, components : ComponentData[]) : FileJSXUsage {
+      const usage : FileJSXUsage = {
+        usages: [],
+        renders: [],
+        props: [],
+        spreads: []
+      };
+      const ownComponents = new Map(components.map(component => [component.name, component]));
+
+      // Find JSX element usage
+      traverse(ast, {
+        JSXElement: (path : any) => {
+          const openingElement = path.node.openingElement;
+          if (t.isJSXIdentifier(openingElement.name)) {
+            const componentName = openingElement.name.name;
+
+            // Only process if it's a component (starts with uppercase)
+            if (!/^[A-Z]/.test(componentName)) 
+              return;
+            
+            // Props passed here, for orphan detection
+            const passedProps = openingElement
+              .attributes
+              .filter((attr : any) => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name))
+              .map((attr : any) => attr.name.name);
+            if (path.node.children.some((child : any) => !t.isJSXText(child) || child.value.trim() !== '')) {
+              passedProps.push('children');
+            }
+            usage
+              .usages
+              .push({
+                child: componentName,
+                props: passedProps,
+                spreadsProps: openingElement
+                  .attributes
+                  .some((attr : any) => t.isJSXSpreadAttribute(attr))
+              });
+
+            // Find parent component
+            let parentComponent : ComponentData | undefined;
+            let currentPath = path.parentPath;
+
+            // Keep walking past local declarations (const content = <Child />) until a
+            // known function or class component is reached
+            while (currentPath) {
+              const node = currentPath.node;
+              if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node) || t.isClassDeclaration(node)) && node.id) {
+                parentComponent = ownComponents.get(node.id.name);
+              } else if (t.isVariableDeclarator(node) && t.isIdentifier(node.id)) {
+                parentComponent = ownComponents.get(node.id.name);
+              }
+              if (parentComponent) 
+                break;
+              currentPath = currentPath.parentPath;
+            }
+
+            if (!parentComponent) 
+              return;
+            
+            // Elements this one is passed to as children, resolved when linking
+            const enclosing : string[] = [];
+            for (let current = path.parentPath; current; current = current.parentPath) {
+              if (current.isJSXElement() && t.isJSXIdentifier(current.node.openingElement.name) && /^[A-Z]/.test(current.node.openingElement.name.name)) {
+                enclosing.push(current.node.openingElement.name.name);
+              }
+            }
+            usage
+              .renders
+              .push({
+                parent: parentComponent.id,
+                enclosing,
+                child: componentName,
+                context: this.renderContext(path, currentPath, parentComponent, filePath, code)
+              });
+            const passProp = (parentItem : ComponentItem | undefined, propName : string, value?: t.Node | null, unserializable?: string) => usage
+              .props
+              .push({
+                parent: (parentComponent as ComponentData).id,
+                item: parentItem
+                  ?.id,
+                child: componentName,
+                propName,
+                value: t.isIdentifier(value)
+                  ? value.start ?? undefined
+                  : undefined,
+                unserializable,
+                range: unserializable && value
+                  ? this.sourceRange(value, filePath)
+                  : undefined
+              });
+
+            // Analyze props being passed
+            openingElement
+              .attributes
+              .forEach((attr : any) => {
+                if (!t.isJSXAttribute(attr)) 
+                  return;
+                if (!t.isJSXIdentifier(attr.name)) 
+                  return;
+                if (!parentComponent) 
+                  return; // Guard clause
+                
+                const propName = attr.name.name;
+                const expr = t.isJSXExpressionContainer(attr.value)
+                  ? attr.value.expression
+                  : null;
+                const inlineCallback = expr && this.callbackFunction(expr);
+                // Checked against the child's 'use client' directive when linking
+                const unserializable = expr && !t.isJSXEmptyExpression(expr)
+                  ? this.unserializableValue(expr, path.scope, 0)
+                  : undefined;
+
+                // Inline callback: <Search onChange={v => setQuery(v)} /> links whatever it calls
+                if (inlineCallback) {
+                  const calledItems = this.findCalledItems(parentComponent, inlineCallback);
+                  if (calledItems.length === 0) {
+                    passProp(undefined, propName, expr, unserializable);
+                  }
+                  calledItems.forEach(item => passProp(item, propName, expr, unserializable));
+                  return;
+                }
+
+                const parentItem = expr
+                  ? this.findPassedItem(parentComponent, expr)
+                  : undefined;
+                passProp(parentItem, propName, expr, unserializable);
+              });
+
+            // Spread attributes: <Input {...field} />, resolved once every file is linked
+            openingElement
+              .attributes
+              .forEach((attr : any) => {
+                if (t.isJSXSpreadAttribute(attr) && parentComponent) {
+                  // A local object is forwarded as the literal it is bound to: const field =
+                  // {value, onChange: setValue}
+                  const binding = t.isIdentifier(attr.argument)
+                    ? path
+                      .scope
+                      .getBinding(attr.argument.name)
+                    : undefined;
+                  const declaration = binding
+                    ?.constant && binding.path.node;
+                  const argument = t.isVariableDeclarator(declaration) && t.isIdentifier(declaration.id) && t.isObjectExpression(declaration.init)
+                    ? declaration.init
+                    : attr.argument;
+                  usage
+                    .spreads
+                    .push({parent: parentComponent.id, child: componentName, argument});
+                }
+              });
+          }
+        },
+
+        // Components used as values: <Route component={Settings} />,
+        // createElement(Settings), {path: '/', element: Home}
+        Identifier: (path : any) => {
+          const parent = path.parent;
+          if (!/^[A-Z]/.test(path.node.name)) 
+            return;
+          if (!(t.isJSXExpressionContainer(parent) || (t.isCallExpression(parent) && parent.arguments.includes(path.node)) || (t.isObjectProperty(parent) && parent.value === path.node && !t.isObjectPattern(path.parentPath.parent)) || t.isArrayExpression(parent))) 
+            return;
+          usage
+            .usages
+            .push({child: path.node.name, props: [], spreadsProps: true});
+        }
+      });
+
+      return usage;
+    }
+
+    // React Router routes: <Route path element> elements nested in each other, and
+    // route objects passed to createBrowserRouter or useRoutes, or typed RouteObject
+    private collectRoutes(ast : t.File, filePath : string, code : string) : FileRoute[] {
+      const routes : FileRoute[] = [];
+      const visited = new Set < t.Node > ();
+
+      // The component an element renders, looking into <Suspense> and fragments:
+      // element={<Home />}, Component={Home}, component={Home}
+      const elementTag = (node : t.Node | null | undefined) : string | undefined => {
+        if (t.isJSXExpressionContainer(node)) 
+          return elementTag(node.expression);
+        if (t.isIdentifier(node)) 
+          return node.name;
+        if (t.isJSXElement(node) || t.isJSXFragment(node)) {
+          const name = t.isJSXElement(node)
+            ? node.openingElement.name
+            : null;
+          if (t.isJSXIdentifier(name) && /^[A-Z]/.test(name.name) && !ROUTE_WRAPPERS.includes(name.name)) 
+            return name.name;
+          for (const child of node.children) {
+            const found = elementTag(child);
+            if (found) 
+              return found;
+          }
+        }
+        return undefined;
+      };
+      const pathValue = (node : t.Node | null | undefined) : string | undefined => {
+        if (t.isJSXExpressionContainer(node)) 
+          return pathValue(node.expression);
+        if (t.isStringLiteral(node)) 
+          return node.value;
+        if (t.isTemplateLiteral(node) && node.expressions.length === 0) 
+          return node.quasis[0].value.cooked ?? undefined;
+        return node && !t.isJSXEmptyExpression(node)
+          ? `{${this.sourceText(node, code)}}`
+          : undefined;
+      };
+
+      // Adds a route below the routes it is nested in, and returns what the routes
+      // nested in it inherit. Routes with nested routes are layouts, and only
+      // routes too when none of those is their index route, which then stands for
+      // the layout's path
+      type Enclosing = {
+        base: string;
+        layouts: string[];
+        parent?: string;
+        indexParent?: string; // parent of an index route, which has the layout's path
+      };
+      const addRoute = (enclosing : Enclosing, segment : string | undefined, index : boolean, element : string | undefined, nested : boolean, indexed : boolean, node : t.Node) : Enclosing => {
+        const routePath = segment === undefined
+          ? enclosing.base || '/'
+          : segment.startsWith('/')
+            ? segment
+            : `${enclosing.base.replace(/\/$/, '')}/${segment}`;
+        const isRoute = !nested || (segment !== undefined && !indexed);
+        if (isRoute) {
+          routes.push({
+            path: routePath,
+            element,
+            layouts: enclosing.layouts,
+            parent: index
+              ? enclosing.indexParent
+              : enclosing.parent,
+            range: this.sourceRange(node, filePath)
+          });
+        }
+        return {
+          base: segment === undefined
+            ? enclosing.base
+            : routePath,
+          layouts: nested && element
+            ? [
+              ...enclosing.layouts,
+              element
+            ]
+            : enclosing.layouts,
+          parent: segment !== undefined
+            ? routePath
+            : enclosing.parent,
+          indexParent: segment !== undefined
+            ? enclosing.parent
+            : enclosing.indexParent
+        };
+      };
+
+      const isRouteElement = (node : t.Node) : node is t.JSXElement => t.isJSXElement(node) && t.isJSXIdentifier(node.openingElement.name, {name: 'Route'});
+      const attribute = (element : t.JSXElement, name : string) => element
+        .openingElement
+        .attributes
+        .find(attr => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, {name})) as t.JSXAttribute | undefined;
+      const visitElement = (element : t.JSXElement, enclosing : Enclosing) => {
+        const nested = element
+          .children
+          .flatMap(child => t.isJSXFragment(child)
+            ? child.children
+            : [child])
+          .filter(isRouteElement);
+        const rendered = attribute(element, 'element') || attribute(element, 'Component') || attribute(element, 'component');
+        const inner = addRoute(enclosing, pathValue(attribute(element, 'path')
+          ?.value), !!attribute(element, 'index'), elementTag(rendered
+          ?.value), nested.length > 0, nested.some(child => !!attribute(child, 'index')), element);
+        nested.forEach(child => visitElement(child, inner));
+      };
+
+      const isIndexObject = (object : t.ObjectExpression) => t.isBooleanLiteral(this.objectOption(object, 'index'), {value: true});
+      const visitObjects = (array : t.ArrayExpression, enclosing : Enclosing) => {
+        visited.add(array);
+        array
+          .elements
+          .forEach(element => {
+            if (!t.isObjectExpression(element)) 
+              return;
+            const children = this.objectOption(element, 'children');
+            const nested = t.isArrayExpression(children)
+              ? children
+                .elements
+                .filter((child) : child is t.ObjectExpression => t.isObjectExpression(child))
+              : [];
+            const inner = addRoute(enclosing, pathValue(this.objectOption(element, 'path')), isIndexObject(element), elementTag(this.objectOption(element, 'element') || this.objectOption(element, 'Component')), nested.length > 0, nested.some(isIndexObject), element);
+            if (t.isArrayExpression(children)) {
+              visitObjects(children, inner);
+            }
+          });
+      };
+      const unwrap = (node : t.Node | null | undefined) => t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node)
+        ? node.expression
+        : node;
+
+      traverse(ast, {
+        JSXElement: (path : any) => {
+          if (isRouteElement(path.node) && !path.findParent((parent : any) => isRouteElement(parent.node))) {
+            visitElement(path.node, {base: '', layouts: []});
+          }
+        },
+
+        // const routes: RouteObject[] = [...]
+        VariableDeclarator: (path : any) => {
+          const init = unwrap(path.node.init);
+          const annotation = path.node.id.typeAnnotation;
+          if (t.isArrayExpression(init) && annotation && /\bRouteObject\b/.test(this.sourceText(annotation, code)) && !visited.has(init)) {
+            visitObjects(init, {base: '', layouts: []});
+          }
+        },
+
+        // createBrowserRouter([...]), useRoutes(routes)
+        CallExpression: (path : any) => {
+          const callee = path.node.callee;
+          if (!t.isIdentifier(callee) || !ROUTER_FACTORIES.includes(callee.name)) 
+            return;
+          let routesArg = unwrap(path.node.arguments[0]);
+          if (t.isIdentifier(routesArg)) {
+            const declaration = path
+              .scope
+              .getBinding(routesArg.name)
+              ?.path
+                .node;
+            routesArg = t.isVariableDeclarator(declaration)
+              ? unwrap(declaration.init)
+              : undefined;
+          }
+          if (t.isArrayExpression(routesArg) && !visited.has(routesArg)) {
+            visitObjects(routesArg, {base: '', layouts: []});
+          }
+        }
+      });
+
+      return routes;
+    }
+
+    // What a prop value is when a server component cannot pass it to a client
+    // component: a function other than a server action, a class, a Date or another
+    // class instance, directly or within an object or array literal
+    private unserializableValue(expr : t.Node, scope : any, depth : number) : string | undefined {
+      if(depth > 3) 
+        return undefined;
+      const fn = this.callbackFunction(expr);
+      if (fn) {
+        return this.isServerAction(fn)
+          ? undefined
+          : 'function';
+      }
+      if (t.isClassExpression(expr)) 
+        return 'class';
+      if (t.isNewExpression(expr)) {
+        const className = t.isIdentifier(expr.callee)
+          ? expr.callee.name
+          : undefined;
+        if (className === 'Date') 
+          return 'Date';
+        return className && SERIALIZABLE_CLASSES.includes(className)
+          ? undefined
+          : `${className || 'class'} instance`;
+      }
+      if (t.isObjectExpression(expr)) {
+        for (const prop of expr.properties) {
+          const found = t.isObjectMethod(prop)
+            ? 'function'
+            : t.isObjectProperty(prop)
+              ? this.unserializableValue(prop.value, scope, depth + 1)
+              : undefined;
+          if (found) 
+            return found;
+        }
+        return undefined;
+      }
+      if (t.isArrayExpression(expr)) {
+        for (const element of expr.elements) {
+          const found = element && this.unserializableValue(element, scope, depth + 1);
+          if (found) 
+            return found;
+        }
+        return undefined;
+      }
+      if (t.isIdentifier(expr)) {
+        // Follow the name to the function, class or value it is declared as
+        const binding = scope
+          ?.getBinding(expr.name);
+        const declaration = binding
+          ?.path
+            .node;
+        if (t.isFunctionDeclaration(declaration)) {
+          return this.isServerAction(declaration)
+            ? undefined
+            : 'function';
+        }
+        if (t.isClassDeclaration(declaration)) 
+          return 'class';
+        if (t.isVariableDeclarator(declaration) && t.isIdentifier(declaration.id) && declaration.init && !t.isIdentifier(declaration.init)) 
+          return this.unserializableValue(declaration.init, binding.path.scope, depth + 1);
+      }
+      return undefined;
+    }
+
+    // A function marked with 'use server', which client components can receive
+    // and call
+    private isServerAction(fn : t.Function) : boolean {
+      return t.isBlockStatement(fn.body) && fn
+        .body
+        .directives
+        .some(directive => directive.value.value === 'use server');
+    }
+
+    // Aggregates the JSX elements rendering a child within one parent
+    private addRenderEdge(parent : ComponentData, child : ComponentData, context : Pick < RenderEdge, 'conditional' | 'inList' | 'conditions' | 'lists' >) {
+      const id = `${parent.id}->${child.id}`;
+      const edge = this
+        .renderEdges
+        .get(id);
+      if (!edge) {
+        this
+          .renderEdges
+          .set(id, {
+            id,
+            parent: parent.id,
+            child: child.id,
+            count: 1,
+            ...context,
+            ...(this.crossesToClient(parent, child)
+              ? {
+                boundary: true
+              }
+              : {})
+          });
+        return;
+      }
+      edge.count++;
+      edge.conditional = edge.conditional && context.conditional;
+      edge.inList = edge.inList || context.inList;
+      context
+        .conditions
+        .forEach(condition => {
+          if (!edge.conditions.some(existing => existing.expression === condition.expression)) {
+            edge
+              .conditions
+              .push(condition);
+          }
+        });
+      edge
+        .lists
+        .push(...context.lists);
+    }
+
+    // The conditions and .map callbacks of the component between it and a JSX
+    // element, outermost condition first; only the innermost list is kept
+    private renderContext(path : any, boundary : any, component : ComponentData, filePath : string, code : string) : Pick < RenderEdge,
+    'conditional' | 'inList' | 'conditions' | 'lists' > {
+      const conditions : RenderCondition[] = [];
+      const lists : RenderList[] = [];
+      const addCondition = (test : t.Node, expression : string) => {
+        conditions.unshift({
+          expression,
+          dependsOn: this.expressionItems(component, test),
+          range: this.sourceRange(test, filePath)
+        });
+      };
+
+      let listElement : t.Node = path.node; // outermost element below the innermost .map
+      let current = path;
+      while (current.parentPath && current.parentPath.node !== boundary.node) {
+        const node = current.parentPath.node;
+        const text = (test : t.Node) => this.sourceText(test, code);
+        if ((t.isConditionalExpression(node) || t.isIfStatement(node)) && current.key !== 'test') {
+          addCondition(node.test, current.key === 'consequent'
+            ? text(node.test)
+            : `!(${text(node.test)})`);
+        } else if (t.isLogicalExpression(node) && current.key === 'right') {
+          const expression = node.operator === '&&'
+            ? text(node.left)
+            : node.operator === '||'
+              ? `!(${text(node.left)})`
+              : `${text(node.left)} == null`;
+          addCondition(node.left, expression);
+        } else if (t.isSwitchCase(node) && current.listKey === 'consequent' && t.isSwitchStatement(current.parentPath.parent)) {
+          const discriminant = text(current.parentPath.parent.discriminant);
+          addCondition(current.parentPath.parent.discriminant, node.test
+            ? `${discriminant} === ${text(node.test)}`
+            : `${discriminant} (default)`);
+        } else if (t.isCallExpression(node) && current.listKey === 'arguments' && t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property) && ['map', 'flatMap'].includes(node.callee.property.name)) {
+          if (lists.length === 0) {
+            lists.push(this.renderList(node, listElement, filePath, code, component));
+          }
+        } else if (lists.length === 0 && (t.isJSXElement(node) || t.isJSXFragment(node))) {
+          listElement = node;
+        }
+        current = current.parentPath;
+      }
+      return {
+        conditional: conditions.length > 0,
+        inList: lists.length > 0,
+        conditions,
+        lists
+      };
+    }
+
+    // items.map((item, index) => <Row key={item.id} />): the source, and the key of the
+    // element returned per item
+    private renderList(call : t.CallExpression, element : t.Node, filePath : string, code : string, component : ComponentData) : RenderList {
+      const source = (call.callee as t.MemberExpression).object;
+      const callback = call.arguments[0];
+      const indexParam = (t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback)) && t.isIdentifier(callback.params[1])
+        ? callback.params[1].name
+        : undefined;
+
+      let key : string | undefined;
+      let keyIsIndex = false;
+      if (t.isJSXElement(element)) {
+        const keyAttr = element
+          .openingElement
+          .attributes
+          .find(attr => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, {name: 'key'}));
+        const value = keyAttr && t.isJSXAttribute(keyAttr)
+          ? keyAttr.value
+          : null;
+        if (t.isJSXExpressionContainer(value) && !t.isJSXEmptyExpression(value.expression)) {
+          key = this.sourceText(value.expression, code);
+          keyIsIndex = !!indexParam && this
+            .collectReadNames(this.expressionFunction(value.expression))
+            .has(indexParam);
+        } else if (value) {
+          key = this.sourceText(value, code);
+        }
+      }
+
+      return {
+        source: this.sourceText(source, code),
+        dependsOn: this.expressionItems(component, source),
+        key,
+        keyIsIndex,
+        range: this.sourceRange(element, filePath)
+      };
+    }
+
+    // Ids of the state, props and values of a component read by an expression
+    private expressionItems(component : ComponentData, expr : t.Node) : string[] {
+      if (!t.isExpression(expr)) 
+        return [];
+      const wrapper = this.expressionFunction(expr);
+      const names = new Set(this.collectReadNames(wrapper));
+      this
+        .callbackUsage(wrapper)
+        .reads
+        .forEach(read => names.add(read.replace(/^props\./, '')));
+      return component
+        .items
+        .filter(item => names.has(item.name) && !['setter', 'function', 'effect'].includes(item.type))
+        .map(item => item.id);
+    }
+
+    // The parent item behind an attribute value: <Child prop={value} /> or <Child
+    // prop={this.state.value} />
+    private findPassedItem(parentComponent : ComponentData, expr : t.Node) : ComponentItem | undefined {
+      if(t.isIdentifier(expr)) {
+        const valueName = expr.name;
+        return parentComponent
+          .items
+          .find(item => item.name === valueName);
+      }
+      if (t.isMemberExpression(expr) && t.isIdentifier(expr.property)) {
+        const valueName = expr.property.name;
+        return parentComponent
+          .items
+          .find(item => item.name === valueName);
+      }
+      return undefined;
+    }
+
+    // Setters, dispatches and functions of the parent called by an inline callback
+    private findCalledItems(parentComponent : ComponentData, fn : t.Node) : ComponentItem[] {
+      const calledItems : ComponentItem[] = [];
+      const callableTypes = ['setter', 'function', 'prop-function', 'hook-value'];
+
+      const addItem = (item : ComponentItem | undefined) => {
+        if (item && !calledItems.includes(item)) {
+          calledItems.push(item);
+        }
+      };
+
+      const recordCall = (callee : t.Node, args : t.Node[]) => {
+        // setQuery(v), dispatch({type: 'save'}), handleSave()
+        if (t.isIdentifier(callee)) {
+          addItem(parentComponent.items.find(item => item.name === callee.name && callableTypes.includes(item.type)));
+          return;
+        }
+        if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property) || callee.computed) 
+          return;
+        
+        const propertyName = callee.property.name;
+        const object = callee.object;
+        if (t.isThisExpression(object) && propertyName === 'setState') {
+          // this.setState({query: v}): the setter item writing the same keys
+          const keys = args[0]
+            ? this.setStateKeys(args[0])
+            : [];
+          const setters = parentComponent
+            .items
+            .filter(item => item.type === 'setter' && item.updates);
+          addItem(setters.find(item => item.updates!.join(',') === keys.join(',')) || setters.find(item => keys.some(key => item.updates!.includes(key))));
+        } else if (t.isThisExpression(object)) {
+          // this.handleSave()
+          addItem(parentComponent.items.find(item => item.name === propertyName && item.type === 'function'));
+        } else if (t.isIdentifier(object, {name: 'props'}) || (t.isMemberExpression(object) && t.isThisExpression(object.object) && t.isIdentifier(object.property, {name: 'props'}))) {
+          // props.onSave(), this.props.onSave()
+          addItem(parentComponent.items.find(item => item.name === propertyName && item.type === 'prop-function'));
+        }
+      };
+
+      try {
+        traverse(fn, {
+          noScope: true,
+          CallExpression: (path) => recordCall(path.node.callee, path.node.arguments),
+          OptionalCallExpression: (path) => recordCall(path.node.callee, path.node.arguments)
+        });
+      } catch (error) {
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Error resolving inline callback: ${error}`);
+      }
+
+      return calledItems;
+    }
+
+    // Keys forwarded by {...argument}: the props object, a destructured rest, or an
+    // object literal
+    private spreadEntries(parentComponent : ComponentData, argument : t.Node) : {
+      key: string;
+      item?: ComponentItem
+    }[] {
+      const propBag = () => parentComponent
+        .items
+        .filter(item => (item.type === 'prop' || item.type === 'prop-function') && !item.name.startsWith('...'))
+        .map(item => ({key: item.name, item}));
+
+      if (t.isIdentifier(argument)) {
+        const localName = argument.name;
+        if (localName === 'props') 
+          return propBag();
+        return parentComponent
+          .items
+          .filter(item => item.restOf === localName)
+          .map(item => ({key: item.name, item}));
+      }
+
+      if (t.isMemberExpression(argument) && t.isThisExpression(argument.object) && t.isIdentifier(argument.property, {name: 'props'})) {
+        return propBag();
+      }
+
+      if (t.isObjectExpression(argument)) {
+        return argument
+          .properties
+          .flatMap((prop) : {
+            key: string;
+            item?: ComponentItem
+          }[] => {
+            if (t.isSpreadElement(prop)) 
+              return this.spreadEntries(parentComponent, prop.argument);
+            if (!t.isObjectProperty(prop) || prop.computed) 
+              return [];
+            const key = t.isIdentifier(prop.key)
+              ? prop.key.name
+              : t.isStringLiteral(prop.key)
+                ? prop.key.value
+                : null;
+            return key
+              ? [
+                {
+                  key,
+                  item: this.findPassedItem(parentComponent, prop.value)
+                }
+              ]
+              : [];
+          });
+      }
+
+      return [];
+    }
+
+    // Links a passed value to the child's prop, expanding the child's rest props
+    // (function Input({label, ...rest})) with props it does not declare. Returns
+    // whether anything was added
+    private connectProp(flows : DataFlow[], parentComponent : ComponentData, parentItem : ComponentItem | undefined, childComponent : ComponentData, propName : string) : boolean {
+      let added = false;
+      let childPropItem = childComponent
+        .items
+        .find(item => item.name === propName && (item.type === 'prop' || item.type === 'prop-function'));
+
+      if (!childPropItem) {
+        const restIndex = childComponent
+          .items
+          .findIndex(item => item.type === 'prop' && item.name.startsWith('...'));
+        if (restIndex === -1 || propName === 'key' || propName === 'ref') 
+          return false;
+        
+        const rest = childComponent.items[restIndex];
+        const restName = rest
+          .name
+          .slice(3);
+        let insertIndex = restIndex + 1;
+        while (insertIndex < childComponent.items.length && childComponent.items[insertIndex].restOf === restName) {
+          insertIndex++;
+        }
+        const isCallback = CALLBACK_PROP_PATTERN.test(propName);
+        childPropItem = {
+          id: `${childComponent.id}-${propName}`,
+          name: propName,
+          type: isCallback
+            ? 'prop-function'
+            : 'prop',
+          color: isCallback
+            ? '#fb923c'
+            : '#f59e0b',
+          flowId: `${propName}-flow`,
+          optional: true,
+          restOf: restName,
+          passThrough: rest.passThrough
+        };
+        childComponent
+          .items
+          .splice(insertIndex, 0, childPropItem);
+        childComponent.width = this.componentWidth(childComponent.name, childComponent.items);
+        childComponent.height = Math.max(100, childComponent.items.length * 18 + 60);
+        added = true;
+
+        this
+          .debugInfo
+          .analysisLog
+          .push(`  Rest prop: ${childComponent.name}.${rest.name} receives ${propName}`);
+      }
+
+      if (!parentItem || flows.some(flow => flow.fromItem === parentItem.id && flow.toItem === childPropItem!.id)) 
+        return added;
+      
+      const flowType = this.determineFlowType(parentItem.type, childPropItem.type);
+      flows.push({id: `${propName}-flow`, fromItem: parentItem.id, toItem: childPropItem.id, type: flowType});
+
+      this
+        .debugInfo
+        .analysisLog
+        .push(`  Flow: ${parentComponent.name}.${parentItem.name} → ${childComponent.name}.${propName}`);
+      return true;
+    }
+
+    private analyzeHookFlows(components : ComponentData[]) : DataFlow[] {
+      const flows : DataFlow[] = [];
+
+      components.forEach(component => {
+        component
+          .items
+          .filter(item => item.type === 'hook-value' && item.hookName)
+          .forEach(item => {
+            const hook = this.findComponent(component.filePath, item.hookName as string);
+            if (!hook || hook.kind !== 'hook') {
+              this
+                .debugInfo
+                .analysisLog
+                .push(`  Hook ${item.hookName} used by ${component.name} was not found`);
+              return;
+            }
+
+            // Prefer the hook's internal item behind the returned key
+            const internalName = hook.hookReturns
+              ?.[item.hookKey ?? ''];
+            const hookItem = (internalName && hook.items.find(hookItem => hookItem.id === `${hook.id}-${internalName}`)) || hook
+              .items
+              .find(hookItem => hookItem.type === 'hook-return');
+            if (!hookItem) 
+              return;
+            
+            flows.push({
+              id: `${hook.name}-hook`,
+              fromItem: hookItem.id,
+              toItem: item.id,
+              type: this.determineFlowType(hookItem.type, item.type)
+            });
+
+            this
+              .debugInfo
+              .analysisLog
+              .push(`  Hook flow: ${hook.name}.${hookItem.name} → ${component.name}.${item.name}`);
+          });
+      });
+
+      return flows;
+    }
+
+    private analyzeEffectFlows(components : ComponentData[]) : DataFlow[] {
+      const flows : DataFlow[] = [];
+      const dependencyTypes = ['state', 'prop', 'prop-function', 'memo', 'function', 'hook-value', 'context-consumer', 'server-state'];
+
+      components.forEach(component => {
+        const findItem = (name : string, types : string[]) => component
+          .items
+          .find(item => (item.name === name || item.name === `${name}()`) && types.includes(item.type));
+
+        // Setters called directly, or through local functions: useEffect(() => { load(); })
+        const calledSetters = (calls : string[], seen : Set < string >) : ComponentItem[] => calls.flatMap(name => {
+          if (seen.has(name)) 
+            return [];
+          seen.add(name);
+          const setter = findItem(name, ['setter']);
+          if (setter) 
+            return [setter];
+          const fn = findItem(name, ['function']);
+          return fn && fn.calls
+            ? calledSetters(fn.calls, seen)
+            : [];
+        });
+
+        component
+          .items
+          .forEach(item => {
+            // [filter, props.page] -> effect, memo or callback
+            (item.dependencies || []).forEach(dependency => {
+              const parts = dependency.split('.');
+              const rootName = parts[0] === 'props' && parts.length > 1
+                ? parts[1]
+                : parts[0];
+              const dependencyItem = findItem(rootName, dependencyTypes);
+              if (!dependencyItem || dependencyItem === item || flows.some(flow => flow.fromItem === dependencyItem.id && flow.toItem === item.id)) 
+                return;
+              flows.push({id: dependencyItem.flowId, fromItem: dependencyItem.id, toItem: item.id, type: 'dependency-to-effect'});
+              this
+                .debugInfo
+                .analysisLog
+                .push(`  Dependency: ${component.name}.${dependencyItem.name} → ${item.name}`);
+            });
+
+            // effect -> setters it calls
+            if (item.type === 'effect') {
+              calledSetters(item.calls || [], new Set()).forEach(setter => {
+                if (flows.some(flow => flow.fromItem === item.id && flow.toItem === setter.id)) 
+                  return;
+                flows.push({id: setter.flowId, fromItem: item.id, toItem: setter.id, type: 'effect-to-setter'});
+                this
+                  .debugInfo
+                  .analysisLog
+                  .push(`  Effect write: ${component.name}.${item.name} → ${setter.name}`);
+              });
+            }
+          });
+      });
+
+      return flows;
+    }
+
+    private contextProviderItem(componentId : string, componentName : string, opening : t.JSXOpeningElement, scope?: FileScope) : ComponentItem | null {
+      const name = opening.name;
+      if(!t.isJSXMemberExpression(name) || name.property.name !== 'Provider' || !t.isJSXIdentifier(name.object)) 
+        return null;
+      
+      const contextName = name.object.name;
+      const valueAttr = opening
+        .attributes
+        .find(attr => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, {name: 'value'}));
+      const providedValue = scope && t.isJSXAttribute(valueAttr) && t.isJSXExpressionContainer(valueAttr.value) && !t.isJSXEmptyExpression(valueAttr.value.expression)
+        ? this.sourceText(valueAttr.value.expression, scope.code)
+        : undefined;
+
+      this
+        .debugInfo
+        .analysisLog
+        .push(`Found Context Provider: ${contextName} in ${componentName}${providedValue
+          ? ` (value=${providedValue})`
+          : ''}`);
+
+      return {
+        id: `${componentId}-${contextName}Provider`,
+        name: `${contextName}Provider`,
+        type: 'context-provider',
+        color: '#ec4899',
+        flowId: `${contextName}-context`,
+        contextName,
+        providedValue
+      };
+    }
+
+    private resolveContextId(filePath : string, name : string, depth : number) : string | null {
+      const checked = depth === 0 && this.checkedDeclarationId(filePath, name, 'contexts');
+      if (checked) 
+        return checked;
+      const scope = this.loadFileScope(filePath);
+      if(!scope || depth > 10) 
+        return null;
+      
+      if (name === 'default' && scope.defaultExport) {
+        return this.resolveContextId(filePath, scope.defaultExport, depth + 1);
+      }
+      if (scope.contexts.has(name)) {
+        return `${filePath}#${name}`;
+      }
+
+      // Follow imports and re-exports to the createContext call
+      const imported = scope
+        .imports
+        .get(name);
+      if (imported) {
+        return this.resolveContextId(imported.resolvedPath, imported.importedName, depth + 1);
+      }
+      for (const source of scope.exportAll) {
+        const found = this.resolveContextId(source, name, depth + 1);
+        if (found) 
+          return found;
+      }
+      return null;
+    }
+
+    // One node per Zustand store, per file of atoms, one for the Redux store
+    // gathering every slice, and one per server state cache with its query keys
+    private buildStores(components : ComponentData[]) : ComponentData[] {
+      const stores : ComponentData[] = [];
+      const storeNode = (filePath : string, name : string, library : StoreLibrary, entries : {
+        name: string;
+        type: 'store-slice' | 'store-action';
+        storeKey: string
+      }[]) : ComponentData => {
+        const id = this.componentId(filePath, name);
+        const items = entries.map(entry => ({
+          id: `${id}-${entry.name}`,
+          name: entry.name,
+          type: entry.type,
+          color: entry.type === 'store-slice'
+            ? '#facc15'
+            : '#d97706',
+          flowId: `${name}-store`,
+          storeKey: entry.storeKey,
+          storeId: id
+        }));
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Found ${library} store ${name} with ${items.length} slices and actions`);
+        return {
+          id,
+          filePath,
+          name,
+          label: name,
+          x: 0,
+          y: 0,
+          width: this.componentWidth(name, items),
+          height: Math.max(100, items.length * 18 + 60),
+          kind: 'store',
+          library,
+          items
+        };
+      };
+
+      const slices : {
+        filePath: string;
+        declaration: StoreDeclaration
+      }[] = [];
+      const reducerKeys : string[] = [];
+      let reduxStore : {
+        filePath: string;
+        declaration: StoreDeclaration
+      } | undefined;
+
+      this
+        .fileScopes
+        .forEach(scope => {
+          if (!scope) 
+            return;
+          const atoms : string[] = [];
+          let atomLibrary : StoreLibrary | undefined;
+          scope
+            .stores
+            .forEach((declaration, localName) => {
+              if (declaration.library === 'zustand') {
+                const node = storeNode(scope.filePath, localName, 'zustand', [
+                  ...declaration
+                    .state
+                    .map(key => ({name: key, type: 'store-slice' as const, storeKey: key})),
+                  ...declaration
+                    .actions
+                    .map(key => ({name: key, type: 'store-action' as const, storeKey: key}))
+                ]);
+                stores.push(node);
+                this
+                  .storeIndex
+                  .set(node.id, node);
+              } else if (declaration.kind === 'atom') {
+                atoms.push(localName);
+                atomLibrary = declaration.library;
+              } else if (declaration.kind === 'slice') {
+                slices.push({filePath: scope.filePath, declaration});
+              } else if (declaration.kind === 'reducers') {
+                reducerKeys.push(...declaration.state);
+              } else if (!reduxStore) {
+                reduxStore = {filePath: scope.filePath, declaration};
+              }
+            });
+
+          // Atoms of one file share a node, e.g. "state atoms" for state.ts
+          if (atoms.length > 0 && atomLibrary) {
+            const baseName = path
+              .basename(scope.filePath)
+              .replace(/\.[^.]+$/, '');
+            const node = storeNode(scope.filePath, /atoms?$/i.test(baseName)
+              ? baseName
+              : `${baseName} atoms`, atomLibrary, atoms.map(atom => ({name: atom, type: 'store-slice' as const, storeKey: atom})));
+            stores.push(node);
+            atoms.forEach(atom => this.storeIndex.set(this.componentId(scope.filePath, atom), node));
+          }
+        });
+
+      // configureStore's reducer keys, or the slices themselves when it is not found
+      const home = reduxStore || slices[0];
+      if (home) {
+        const storeKeys = reduxStore && reduxStore.declaration.state.length > 0
+          ? reduxStore.declaration.state
+          : reducerKeys;
+        const sliceNames = [
+          ...storeKeys,
+          ...slices.map(slice => slice.declaration.name)
+        ].filter((name, index, names) => names.indexOf(name) === index);
+        this.reduxStore = storeNode(home.filePath, reduxStore
+          ? reduxStore.declaration.name
+          : 'store', 'redux', [
+          ...sliceNames.map(name => ({name, type: 'store-slice' as const, storeKey: name})),
+          ...slices.flatMap(slice => slice.declaration.actions.map(action => ({name: `${slice.declaration.name}/${action}`, type: 'store-action' as const, storeKey: slice.declaration.name})))
+        ]);
+        stores.push(this.reduxStore);
+      }
+
+      // Query caches are implicit: their keys are whatever components query or invalidate
+      const cacheNames : {
+        [library : string]: string
+      } = {
+        'react-query': 'Query cache',
+        'swr': 'SWR cache',
+        'apollo': 'Apollo cache'
+      };
+      Object
+        .keys(cacheNames)
+        .forEach(library => {
+          const users = components.filter(component => component.items.some(item => item.library === library));
+          if (users.length === 0) 
+            return;
+          const keys : string[] = [];
+          users.forEach(component => component.items.forEach(item => {
+            if (item.library !== library) 
+              return;
+            // A mutation's own key or document names no cached data
+            [
+              item.type === 'server-state'
+                ? item.queryKey
+                : undefined,
+              ...(item.invalidates || [])
+            ].forEach(key => {
+              if (key && !keys.includes(key)) {
+                keys.push(key);
+              }
+            });
+          }));
+          const cache = storeNode(users[0].filePath, cacheNames[library], library as StoreLibrary, keys.map(key => ({name: key, type: 'store-slice' as const, storeKey: key})));
+          cache
+            .items
+            .forEach(item => {
+              item.color = '#2dd4bf';
+              item.flowId = `${item.storeKey}-query`;
+            });
+          stores.push(cache);
+          this
+            .storeIndex
+            .set(cache.id, cache);
+        });
+
+      return stores;
+    }
+
+    // `${filePath}#${name}` of the store, atom or gql document declared behind a
+    // local name
+    // `${filePath}#${name}` of the declaration the type checker resolves a name to,
+    // when declared where the file scopes expect it
+    private checkedDeclarationId(filePath : string, name : string, declarations : 'contexts' | 'stores' | 'operations') : string | null {
+      const declared = this
+        .symbols
+        ?.resolveExport(filePath, name);
+      return declared && this
+        .loadFileScope(declared.filePath)
+        ?.[declarations].has(declared.name)
+          ? `${declared.filePath}#${declared.name}`
+          : null;
+    }
+
+    private resolveDeclarationId(filePath : string, name : string, declarations : 'stores' | 'operations', depth : number) : string | null {
+      const checked = depth === 0 && this.checkedDeclarationId(filePath, name, declarations);
+      if (checked) 
+        return checked;
+      const scope = this.loadFileScope(filePath);
+      if(!scope || depth > 10) 
+        return null;
+      
+      if (name === 'default' && scope.defaultExport) {
+        return this.resolveDeclarationId(filePath, scope.defaultExport, declarations, depth + 1);
+      }
+      if (scope[declarations].has(name)) {
+        return `${filePath}#${name}`;
+      }
+
+      // Follow imports and re-exports to the declaration
+      const imported = scope
+        .imports
+        .get(name);
+      if (imported) {
+        return this.resolveDeclarationId(imported.resolvedPath, imported.importedName, declarations, depth + 1);
+      }
+      for (const source of scope.exportAll) {
+        const found = this.resolveDeclarationId(source, name, declarations, depth + 1);
+        if (found) 
+          return found;
+      }
+      return null;
+    }
+
+    private analyzeStoreFlows(components : ComponentData[]) : {
+      stores: StoreData[];
+      flows: DataFlow[]
+    } {
+      const flows : DataFlow[] = [];
+      const stores = new Map < string,
+        StoreData > ();
+      components.forEach(component => {
+        if (component.kind === 'store' && component.library) {
+          stores.set(component.id, {
+            id: component.id,
+            name: component.name,
+            library: component.library,
+            filePath: component.filePath,
+            slices: component
+              .items
+              .filter(item => item.type === 'store-slice')
+              .map(item => item.id),
+            actions: component
+              .items
+              .filter(item => item.type === 'store-action')
+              .map(item => item.id),
+            readers: [],
+            writers: []
+          });
+        }
+      });
+
+      const link = (store : ComponentData, from : ComponentItem, to : ComponentItem, flowId = `${store.name}-store`) => {
+        if (flows.some(flow => flow.fromItem === from.id && flow.toItem === to.id)) 
+          return;
+        flows.push({
+          id: flowId,
+          fromItem: from.id,
+          toItem: to.id,
+          type: this.determineFlowType(from.type, to.type)
+        });
+        const data = stores.get(store.id) as StoreData;
+        const list = from.type === 'store-slice'
+          ? data.readers
+          : data.writers;
+        const componentItem = list === data.readers
+          ? to
+          : from;
+        if (!list.includes(componentItem.id)) {
+          list.push(componentItem.id);
+        }
+      };
+
+      const actionsNamed = (store : ComponentData, names : string[]) => store
+        .items
+        .filter(item => item.type === 'store-action' && names.some(name => item.name === name || item.name.endsWith(`/${name}`)));
+
+      components.forEach(component => {
+        if (component.kind === 'store') 
+          return;
+        
+        component
+          .items
+          .forEach(item => {
+            // Cached queries: the cache's key feeds every component querying it, and
+            // mutations feed the keys they invalidate (a key also invalidates todos/*)
+            if ((item.type === 'server-state' || item.type === 'server-mutation') && item.library) {
+              const cache = components.find(candidate => candidate.kind === 'store' && candidate.library === item.library);
+              if (!cache) 
+                return;
+              item.storeId = cache.id;
+              if (item.type === 'server-state') {
+                const key = cache
+                  .items
+                  .find(keyItem => keyItem.storeKey === item.queryKey);
+                if (key) {
+                  link(cache, key, item, key.flowId);
+                }
+              } else {
+                cache
+                  .items
+                  .filter(keyItem => (item.invalidates || []).some(invalidated => keyItem.storeKey === invalidated || keyItem.storeKey!.startsWith(`${invalidated}/`)))
+                  .forEach(keyItem => link(cache, item, keyItem, keyItem.flowId));
+              }
+              return;
+            }
+
+            // Zustand stores are called like custom hooks: useCartStore(s => s.items)
+            if (item.type === 'hook-value' && item.hookName) {
+              const zustandId = this.resolveDeclarationId(component.filePath, item.hookName, 'stores', 0);
+              const zustandStore = zustandId
+                ? this
+                  .storeIndex
+                  .get(zustandId)
+                : undefined;
+              if (!zustandStore || zustandStore.library !== 'zustand') 
+                return;
+              const isAction = zustandStore
+                .items
+                .some(storeItem => storeItem.type === 'store-action' && storeItem.name === item.hookKey);
+              item.type = isAction
+                ? 'store-dispatch'
+                : 'store-value';
+              item.color = isAction
+                ? '#d97706'
+                : '#facc15';
+              item.storeName = item.hookName;
+              item.storeKey = item.hookKey;
+            }
+            if (item.type !== 'store-value' && item.type !== 'store-dispatch') 
+              return;
+            
+            // Atoms and Zustand stores are imported; there is one Redux store
+            const storeId = item.storeName
+              ? this.resolveDeclarationId(component.filePath, item.storeName, 'stores', 0)
+              : null;
+            const store = item.storeName
+              ? (storeId
+                ? this.storeIndex.get(storeId)
+                : undefined)
+              : this.reduxStore;
+            if (!store) {
+              this
+                .debugInfo
+                .analysisLog
+                .push(`  Store behind ${component.name}.${item.name} was not found`);
+              return;
+            }
+            item.storeId = store.id;
+            item.flowId = `${store.name}-store`;
+
+            // An atom's items are keyed by its declared name
+            const key = store.library === 'jotai' || store.library === 'recoil'
+              ? storeId !== null && storeId.slice(storeId.lastIndexOf('#') + 1)
+              : item.storeKey;
+            if (item.type === 'store-value') {
+              store
+                .items
+                .filter(storeItem => storeItem.type === 'store-slice' && (storeItem.storeKey === key || (key === undefined && store.library === 'zustand')))
+                .forEach(slice => link(store, slice, item));
+            } else if (store.library === 'redux') {
+              actionsNamed(store, item.dispatches || []).forEach(action => link(store, item, action));
+            } else {
+              store
+                .items
+                .filter(storeItem => storeItem.storeKey === key && (storeItem.type === 'store-action' || store.library !== 'zustand'))
+                .forEach(target => link(store, item, target));
+            }
+          });
+
+        // connect(mapStateToProps, mapDispatchToProps)(TodoList)
+        const connection = this
+          .loadFileScope(component.filePath)
+          ?.connections
+            .get(component.name);
+        const reduxStore = this.reduxStore;
+        if (!connection || !reduxStore) 
+          return;
+        connection
+          .stateProps
+          .forEach((slice, propName) => {
+            const prop = this.connectedProp(component, propName, 'prop');
+            prop.storeId = reduxStore.id;
+            prop.storeKey = slice;
+            reduxStore
+              .items
+              .filter(item => item.type === 'store-slice' && item.storeKey === slice)
+              .forEach(item => link(reduxStore, item, prop));
+          });
+        connection
+          .dispatchProps
+          .forEach((action, propName) => {
+            const prop = this.connectedProp(component, propName, 'prop-function');
+            prop.storeId = reduxStore.id;
+            actionsNamed(reduxStore, [action]).forEach(item => link(reduxStore, prop, item));
+          });
+      });
+
+      return {
+        stores: Array.from(stores.values()),
+        flows
+      };
+    }
+
+    // The prop a connect() call fills in, added when the component never declares it
+    private connectedProp(component : ComponentData, propName : string, type : 'prop' | 'prop-function') : ComponentItem {
+      const existing = component
+        .items
+        .find(item => item.name === propName && (item.type === 'prop' || item.type === 'prop-function'));
+      if (existing) 
+        return existing;
+      
+      const prop : ComponentItem = {
+        id: `${component.id}-${propName}`,
+        name: propName,
+        type,
+        color: type === 'prop-function'
+          ? '#fb923c'
+          : '#f59e0b',
+        flowId: `${propName}-flow`,
+        optional: false
+      };
+      component
+        .items
+        .push(prop);
+      component.width = this.componentWidth(component.name, component.items);
+      component.height = Math.max(100, component.items.length * 18 + 60);
+      return prop;
+    }
+
+    private analyzeContextFlows(components : ComponentData[]) : {
+      contexts: ContextData[];
+      flows: DataFlow[]
+    } {
+      const contexts = new Map < string,
+        ContextData > ();
+      const flows : DataFlow[] = [];
+
+      // Every createContext call in the analyzed files
+      this
+        .fileScopes
+        .forEach(scope => {
+          scope
+            ?.contexts
+              .forEach((declaration, name) => {
+                const id = `${scope.filePath}#${name}`;
+                contexts.set(id, {
+                  id,
+                  name,
+                  filePath: scope.filePath,
+                  defaultValue: declaration.defaultValue,
+                  providers: [],
+                  consumers: []
+                });
+              });
+        });
+
+      // Give providers and consumers the identity of the context they use
+      const providers : {
+        component: ComponentData;
+        item: ComponentItem
+      }[] = [];
+      const consumers : {
+        component: ComponentData;
+        item: ComponentItem
+      }[] = [];
+      components.forEach(component => {
+        component
+          .items
+          .forEach(item => {
+            if ((item.type !== 'context-provider' && item.type !== 'context-consumer') || !item.contextName) 
+              return;
+            
+            item.contextId = this.resolveContextId(component.filePath, item.contextName, 0) || item.contextName;
+            if (!contexts.has(item.contextId)) {
+              contexts.set(item.contextId, {id: item.contextId, name: item.contextName, providers: [], consumers: []});
+            }
+
+            const context = contexts.get(item.contextId) as ContextData;
+            item.flowId = `${context.name}-context`;
+            if (item.type === 'context-provider') {
+              context
+                .providers
+                .push(item.id);
+              providers.push({component, item});
+            } else {
+              context
+                .consumers
+                .push(item.id);
+              consumers.push({component, item});
+            }
+          });
+      });
+
+      // Render tree: child -> components rendering it
+      const renderParents = new Map < ComponentData,
+        ComponentData[] > ();
+      this
+        .renderRelations
+        .forEach(({parent, child}) => {
+          const parents = renderParents.get(child) || [];
+          if (!parents.includes(parent)) {
+            parents.push(parent);
+          }
+          renderParents.set(child, parents);
+        });
+
+      // Context read inside a custom hook is read by the components calling it
+      const hookCallers = (hook : ComponentData, seen : Set < ComponentData >) : ComponentData[] => components.filter(component => component.items.some(item => item.type === 'hook-value' && item.hookName && this.findComponent(component.filePath, item.hookName) === hook)).flatMap(caller => {
+        if (seen.has(caller)) 
+          return [];
+        seen.add(caller);
+        return caller.kind === 'hook'
+          ? hookCallers(caller, seen)
+          : [caller];
+      });
+
+      consumers.forEach(({component, item}) => {
+        const candidates = providers.filter(provider => provider.item.contextId === item.contextId);
+        if (candidates.length === 0) {
+          this
+            .debugInfo
+            .analysisLog
+            .push(`  ${component.name} reads ${item.contextName} without a Provider (default value)`);
+          return;
+        }
+
+        // Breadth-first search up the render tree for the nearest Provider
+        const start = component.kind === 'hook'
+          ? hookCallers(component, new Set())
+          : [component];
+        const visited = new Set < ComponentData > (start);
+        let frontier = start.flatMap(c => renderParents.get(c) || []);
+        let nearest : typeof candidates = [];
+
+        while (frontier.length > 0 && nearest.length === 0) {
+          nearest = candidates.filter(provider => frontier.includes(provider.component));
+          const next : ComponentData[] = [];
+          frontier.forEach(c => {
+            if (visited.has(c)) 
+              return;
+            visited.add(c);
+            next.push(...(renderParents.get(c) || []));
+          });
+          frontier = next;
+        }
+
+        if (nearest.length === 0) {
+          this
+            .debugInfo
+            .analysisLog
+            .push(`  No Provider ancestor found for ${component.name}.${item.name}; linking all ${candidates.length} providers`);
+          nearest = candidates;
+        }
+
+        nearest.forEach(provider => {
+          flows.push({
+            id: item.flowId,
+            fromItem: provider.item.id,
+            toItem: item.id,
+            type: this.determineFlowType(provider.item.type, item.type)
+          });
+          this
+            .debugInfo
+            .analysisLog
+            .push(`  Context flow: ${provider.component.name}.${provider.item.name} → ${component.name}.${item.name}`);
+        });
+      });
+
+      return {
+        contexts: Array.from(contexts.values()),
+        flows
+      };
+    }
+
+    private determineFlowType(fromType : string, toType : string) : string {
+      if(toType === 'hook-value') 
+        return 'hook-to-component';
+      if (fromType === 'state' && toType === 'prop') 
+        return 'state-to-prop';
+      if (fromType === 'setter' && toType === 'prop-function') 
+        return 'setter-to-prop';
+      if (fromType === 'function' && toType === 'prop-function') 
+        return 'function-to-prop';
+      if ((fromType === 'prop' || fromType === 'prop-function') && (toType === 'prop' || toType === 'prop-function')) 
+        return 'prop-to-prop';
+      if (fromType === 'context-provider') 
+        return 'context-provider-to-consumer';
+      if (toType === 'server-state') 
+        return 'query-to-component';
+      if (fromType === 'server-mutation') 
+        return 'mutation-invalidates';
+      if (fromType === 'store-slice') 
+        return 'store-to-component';
+      if (toType === 'store-action' || toType === 'store-slice') 
+        return 'component-to-store';
+      return 'data-flow';
+    }
+
+    private detectConflicts(components : ComponentData[], flows : DataFlow[]) : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+
+      // Find props that have same name as context consumers in same component
+      components.forEach(component => {
+        const props = component
+          .items
+          .filter(item => item.type === 'prop');
+        const contextConsumers = component
+          .items
+          .filter(item => item.type === 'context-consumer');
+
+        props.forEach(prop => {
+          const similarContext = contextConsumers.find(ctx => {
+            // Remove common suffixes/prefixes to compare
+            const propBase = prop
+              .name
+              .replace(/^(get|set|use)/, '')
+              .toLowerCase();
+            const ctxBase = ctx
+              .name
+              .replace(/^(get|set|use)|\(\)$/g, '')
+              .toLowerCase();
+            return propBase === ctxBase || propBase.includes(ctxBase) || ctxBase.includes(propBase);
+          });
+
+          if (similarContext) {
+            const conflictId = `${prop.id}-conflict`;
+            if (!conflicts.find(c => c.id === conflictId)) {
+              conflicts.push({
                 id: conflictId,
-                description: `${component.name} receives "${prop.name}" via both props and context`,
+                type: 'prop-context',
+                description: `${component.label} receives "${prop.name}" via both props and context`,
                 items: [prop.id, similarContext.id]
               });
             }
@@ -1188,9 +6063,881 @@ export class ReactAnalyzer {
         });
       });
 
+      conflicts.push(...this.detectPropDrilling(components, flows));
+      conflicts.push(...this.detectEffectIssues(components, flows));
+      conflicts.push(...this.detectStateOwnership(components, flows));
+      conflicts.push(...this.detectKeyIssues());
+      conflicts.push(...this.detectStoreProps(components, flows));
+      conflicts.push(...this.detectServerStateCopies(components, flows));
+      conflicts.push(...this.detectServerComponentIssues(components));
+
+      return conflicts;
+    }
+
+    // Store data a component selects itself and also receives as a prop, usually
+    // selected by an ancestor and passed down
+    private detectStoreProps(components : ComponentData[], flows : DataFlow[]) : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+      const owners = new Map < string, {
+        item: ComponentItem;
+        component: ComponentData
+      } > ();
+      components.forEach(component => {
+        component
+          .items
+          .forEach(item => owners.set(item.id, {item, component}));
+      });
+
+      // Follow a prop up the props passing it down to the value it starts from
+      const origin = (prop : ComponentItem) => {
+        let current = prop;
+        const seen = new Set < string > ();
+        while ((current.type === 'prop' || current.type === 'prop-function') && !seen.has(current.id)) {
+          seen.add(current.id);
+          const incoming = flows.find(flow => flow.toItem === current.id && owners.has(flow.fromItem));
+          if (!incoming) 
+            break;
+          current = owners.get(incoming.fromItem)!.item;
+        }
+        return current;
+      };
+
+      components.forEach(component => {
+        const reads = component
+          .items
+          .filter(item => item.type === 'store-value' && item.storeId);
+        if (reads.length === 0) 
+          return;
+        
+        component
+          .items
+          .filter(item => item.type === 'prop' && !item.storeId)
+          .forEach(prop => {
+            const source = origin(prop);
+            const fromStore = source !== prop && !!source.storeId && source.storeKey !== undefined;
+            const read = (fromStore
+              ? reads.find(item => item.storeId === source.storeId && item.storeKey === source.storeKey)
+              : undefined) || reads.find(item => item.name === prop.name || item.storeKey === prop.name);
+            if (!read) 
+              return;
+            
+            const store = components.find(candidate => candidate.id === read.storeId);
+            const owner = fromStore
+              ? owners.get(source.id)
+                ?.component
+              : undefined;
+            const passedBy = owner
+              ? ` from ${owner.label}`
+              : '';
+            conflicts.push({
+              id: `${prop.id}-store-prop`,
+              type: 'store-prop',
+              description: `${component.label} selects ${read.storeKey || read.name} from ${store
+                ? store.label
+                : 'the store'} and also receives it as prop "${prop.name}"${passedBy}`,
+              items: fromStore
+                ? [source.id, prop.id, read.id]
+                : [prop.id, read.id],
+              range: read.range
+            });
+          });
+      });
+
+      return conflicts;
+    }
+
+    // Server data copied into local state, which then stops following the cache:
+    // useState(data), an effect setting state from it, or a query's onSuccess
+    private detectServerStateCopies(components : ComponentData[], flows : DataFlow[]) : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+      const rootName = (read : string) => read
+        .replace(/^props\./, '')
+        .split('.')[0];
+
+      components.forEach(component => {
+        const queries = component
+          .items
+          .filter(item => item.type === 'server-state');
+        if (queries.length === 0) 
+          return;
+        const readQuery = (reads : string[]) => queries.find(query => reads.map(rootName).includes(query.name));
+        const stateOf = (setter : ComponentItem) => component
+          .items
+          .find(item => item.type === 'state' && item.flowId === setter.flowId);
+        const describe = (query : ComponentItem) => `${query.name} (${query.hookName}${query.queryKey
+          ? ` ${query.queryKey}`
+          : ''})`;
+        const add = (query : ComponentItem, state : ComponentItem | undefined, via : string, range?: SourceRange) => {
+          const id = `${query.id}-copied-${state
+            ? state.id
+            : via}`;
+          if (!state || conflicts.some(conflict => conflict.id === id)) 
+            return;
+          conflicts.push({
+            id,
+            type: 'server-state-copy',
+            description: `${component.label} copies server data ${describe(query)} into local state ${state.name} ${via}; it goes stale when the query refetches`,
+            items: [query.id, state.id],
+            range
+          });
+        };
+
+        component
+          .items
+          .forEach(item => {
+            // const [todos, setTodos] = useState(data)
+            if (item.type === 'state' && item.initialReads) {
+              const query = readQuery(item.initialReads);
+              if (query) {
+                add(query, item, 'as its initial value', item.range);
+              }
+            }
+
+            // useEffect(() => setTodos(data), [data])
+            if (item.type === 'effect') {
+              const query = readQuery([
+                ...(item.dependencies || []),
+                ...(item.reads || [])
+              ]);
+              if (query) {
+                flows
+                  .filter(flow => flow.fromItem === item.id && flow.type === 'effect-to-setter')
+                  .forEach(flow => {
+                    const setter = component
+                      .items
+                      .find(candidate => candidate.id === flow.toItem);
+                    if (setter) {
+                      add(query, stateOf(setter), `in ${item.name}`, item.range);
+                    }
+                  });
+              }
+            }
+          });
+
+        // useQuery({..., onSuccess: data => setTodos(data)})
+        queries.forEach(query => (query.calls || []).forEach(name => {
+          const setter = component
+            .items
+            .find(item => item.type === 'setter' && item.name === name);
+          if (setter) {
+            add(query, stateOf(setter), 'in its onSuccess callback', query.range);
+          }
+        }));
+      });
+
+      return conflicts;
+    }
+
+    // Props a server component passes to a 'use client' component that cannot be
+    // serialized, and hooks server components call, directly or through custom
+    // hooks, that only client components can
+    private detectServerComponentIssues(components : ComponentData[]) : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+
+      this
+        .serverProps
+        .forEach(prop => {
+          const id = `${prop.parent.id}->${prop.child.id}-${prop.propName}-unserializable`;
+          if (conflicts.some(conflict => conflict.id === id)) 
+            return;
+          const childItem = prop
+            .child
+            .items
+            .find(item => item.name === prop.propName && (item.type === 'prop' || item.type === 'prop-function'));
+          const article = /^[aeiou]/i.test(prop.unserializable)
+            ? 'an'
+            : 'a';
+          conflicts.push({
+            id,
+            type: 'unserializable-prop',
+            description: `Server component ${prop.parent.label} passes "${prop.propName}" to client component ${prop.child.label} as ${article} ${prop.unserializable}, which cannot be serialized`,
+            items: childItem
+              ? [childItem.id]
+              : [],
+            range: prop.range
+          });
+        });
+
+      // Built-in hooks other than the few React provides to server components, hooks
+      // of libraries and stores, and custom hooks calling any of those
+      const clientOnly = (component : ComponentData, name : string, seen : Set < string >) : boolean => {
+        if (SERVER_COMPONENT_HOOKS.includes(name)) 
+          return false;
+        const hook = this.findComponent(component.filePath, name);
+        if (!hook) 
+          return true;
+        if (hook.kind !== 'hook' || seen.has(hook.id)) 
+          return false;
+        seen.add(hook.id);
+        return (hook.hookCalls || []).some(call => clientOnly(hook, call.name, seen));
+      };
+      // Items of built-in hooks, which do not record the hook they come from
+      const itemTypes : {
+        [hook : string]: string[]
+      } = {
+        useState: [
+          'state', 'setter'
+        ],
+        useReducer: [
+          'state', 'setter'
+        ],
+        useContext: ['context-consumer']
+      };
+
+      components
+        .filter(component => component.environment === 'server')
+        .forEach(component => {
+          (component.hookCalls || [])
+            .filter(call => clientOnly(component, call.name, new Set()))
+            .forEach(call => {
+              conflicts.push({
+                id: `${component.id}-${call.name}-server-hook`,
+                type: 'server-hook',
+                description: `Server component ${component.label} calls ${call.name}, which only works in client components`,
+                items: component
+                  .items
+                  .filter(item => item.hookName === call.name || (itemTypes[call.name] || []).includes(item.type))
+                  .map(item => item.id),
+                range: call.range
+              });
+            });
+        });
+
+      return conflicts;
+    }
+
+    // List elements rendered without a key, or keyed by their index
+    private detectKeyIssues() : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+
+      this
+        .renderEdges
+        .forEach(edge => {
+          const parentLabel = this
+            .componentIndex
+            .get(edge.parent)
+            ?.label;
+          const childLabel = this
+            .componentIndex
+            .get(edge.child)
+            ?.label;
+          edge
+            .lists
+            .forEach(list => {
+              if (list.key !== undefined && !list.keyIsIndex) 
+                return;
+              const type = list.keyIsIndex
+                ? 'index-key'
+                : 'missing-key';
+              const id = list.range
+                ? `${type}-${list.range.filePath}:${list.range.startLine}:${list.range.startColumn}`
+                : `${type}-${edge.id}`;
+              if (conflicts.some(conflict => conflict.id === id)) 
+                return;
+              conflicts.push({
+                id,
+                type,
+                description: list.keyIsIndex
+                  ? `${childLabel} rendered by ${parentLabel} for each of ${list.source} uses the index as key (${list.key}), so items lose their state when the list is reordered`
+                  : `${childLabel} rendered by ${parentLabel} for each of ${list.source} has no key`,
+                items: list.dependsOn,
+                range: list.range
+              });
+            });
+        });
+
+      return conflicts;
+    }
+
+    // Values passed through `propDrillingDepth` or more components that only forward them
+    private detectPropDrilling(components : ComponentData[], flows : DataFlow[]) : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+      const threshold = this.options.propDrillingDepth ?? 3;
+      if (threshold < 1) 
+        return conflicts;
+      
+      const owners = new Map < string,
+        {
+          item: ComponentItem;
+          component: ComponentData
+        } > ();
+      components.forEach(component => {
+        component
+          .items
+          .forEach(item => owners.set(item.id, {item, component}));
+      });
+
+      const isProp = (itemId : string) => {
+        const owner = owners.get(itemId);
+        return !!owner && (owner.item.type === 'prop' || owner.item.type === 'prop-function');
+      };
+
+      const outgoing = new Map < string,
+        string[] > ();
+      flows.forEach(flow => {
+        if (isProp(flow.toItem)) {
+          outgoing.set(flow.fromItem, [
+            ...(outgoing.get(flow.fromItem) || []),
+            flow.toItem
+          ]);
+        }
+      });
+
+      const report = (chain : string[]) => {
+        const intermediates = chain.slice(1, -1);
+        if (intermediates.length < threshold) 
+          return;
+        const conflictId = `${chain[0]}->${chain[chain.length - 1]}-drilling`;
+        if (conflicts.some(c => c.id === conflictId)) 
+          return;
+        
+        const source = owners.get(chain[0])!;
+        const target = owners.get(chain[chain.length - 1])!;
+        const path = intermediates
+          .map(itemId => owners.get(itemId)!.component.label)
+          .join(' → ');
+        conflicts.push({
+          id: conflictId,
+          type: 'prop-drilling',
+          description: `${source.component.label}.${source.item.name} is drilled through ${intermediates.length} components (${path}) to ${target.component.label}.${target.item.name}`,
+          items: chain
+        });
+        this
+          .debugInfo
+          .analysisLog
+          .push(`Prop drilling: ${chain.join(' → ')}`);
+      };
+
+      // Follow prop-to-prop flows while the receiving component only forwards the value
+      const follow = (chain : string[]) => {
+        const current = chain[chain.length - 1];
+        const next = (outgoing.get(current) || []).filter(itemId => !chain.includes(itemId));
+        if (!owners.get(current)!.item.passThrough || next.length === 0) {
+          report(chain);
+          return;
+        }
+        next.forEach(itemId => follow([
+          ...chain,
+          itemId
+        ]));
+      };
+
+      outgoing.forEach((targets, fromItem) => {
+        if (isProp(fromItem) || !owners.has(fromItem)) 
+          return;
+        targets.forEach(itemId => follow([fromItem, itemId]));
+      });
+
+      return conflicts;
+    }
+
+    // Effects that feed themselves, cycles of effects, missing dependencies and
+    // effects without a dependency array that set state
+    private detectEffectIssues(components : ComponentData[], flows : DataFlow[]) : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+      const dependencyTypes = ['state', 'prop', 'prop-function', 'memo', 'function', 'hook-value', 'context-consumer', 'server-state'];
+
+      const owners = new Map < string,
+        {
+          item: ComponentItem;
+          component: ComponentData
+        } > ();
+      components.forEach(component => {
+        component
+          .items
+          .forEach(item => owners.set(item.id, {item, component}));
+      });
+
+      const findItem = (component : ComponentData, name : string, types : string[]) => component
+        .items
+        .find(item => (item.name === name || item.name === `${name}()`) && types.includes(item.type));
+
+      // filter, props.filter and user.id all refer to one item
+      const rootName = (name : string) => {
+        const parts = name.split('.');
+        return parts[0] === 'props' && parts.length > 1
+          ? parts[1]
+          : parts[0];
+      };
+
+      const stateOf = (component : ComponentData, setter : ComponentItem) => component
+        .items
+        .find(item => item.type === 'state' && item.flowId === setter.flowId);
+
+      // State written by calling `names` from within `component`: setters directly,
+      // through local functions, or through callback props back up to the owner
+      const writtenStates = (component : ComponentData, names : string[], seen : Set < string >) : ComponentItem[] => names.flatMap(name => {
+        const item = findItem(component, name, ['setter', 'function', 'prop-function']);
+        if (!item || seen.has(item.id)) 
+          return [];
+        seen.add(item.id);
+        if (item.type === 'setter') {
+          const state = stateOf(component, item);
+          return state
+            ? [state]
+            : [];
+        }
+        if (item.type === 'function') 
+          return writtenStates(component, item.calls || [], seen);
+        return flows
+          .filter(flow => flow.toItem === item.id)
+          .flatMap(flow => {
+            const source = owners.get(flow.fromItem);
+            return source
+              ? writtenStates(source.component, [source.item.name], seen)
+              : [];
+          });
+      });
+
+      // Effects whose dependencies a state reaches through props, memos and dependencies
+      const reachedEffects = (stateId : string) : string[] => {
+        const visited = new Set < string > ([stateId]);
+        const queue = [stateId];
+        const effects : string[] = [];
+        while (queue.length > 0) {
+          const current = queue.shift()!;
+          flows
+            .filter(flow => flow.fromItem === current && flow.type !== 'effect-to-setter')
+            .forEach(flow => {
+              if (visited.has(flow.toItem)) 
+                return;
+              visited.add(flow.toItem);
+              const target = owners.get(flow.toItem);
+              if (target && target.item.type === 'effect') {
+                effects.push(flow.toItem);
+              } else {
+                queue.push(flow.toItem);
+              }
+            });
+        }
+        return effects;
+      };
+
+      const selfLoops = new Set < string > ();
+      const effectEdges = new Map < string,
+        string[] > ();
+
+      components.forEach(component => {
+        component
+          .items
+          .forEach(item => {
+            // Dependencies read in the body but missing from the array
+            if (item.dependencies && item.reads) {
+              const listed = item
+                .dependencies
+                .map(rootName);
+              const missing = item
+                .reads
+                .map(name => findItem(component, rootName(name), dependencyTypes))
+                .filter((dependency) : dependency is ComponentItem => !!dependency && dependency !== item && !listed.includes(dependency.name.replace(/\(\)$/, '')))
+                .filter((dependency, index, all) => all.indexOf(dependency) === index);
+              if (missing.length > 0) {
+                conflicts.push({
+                  id: `${item.id}-missing-deps`,
+                  type: 'missing-dependency',
+                  description: `${component.label}.${item.name} reads ${missing
+                    .map(dependency => dependency.name)
+                    .join(', ')} without listing ${missing.length === 1
+                      ? 'it as a dependency'
+                      : 'them as dependencies'}`,
+                  items: [
+                    item.id,
+                    ...missing.map(dependency => dependency.id)
+                  ],
+                  range: item.range
+                });
+              }
+            }
+
+            if (item.type !== 'effect') 
+              return;
+            
+            // No dependency array: runs after every render, so any state write re-renders again
+            if (!item.dependencies) {
+              const written = writtenStates(component, item.calls || [], new Set());
+              if (written.length > 0) {
+                conflicts.push({
+                  id: `${item.id}-no-deps`,
+                  type: 'effect-without-deps',
+                  description: `${component.label}.${item.name} has no dependency array but sets ${written
+                    .map(state => state.name)
+                    .join(', ')}`,
+                  items: [
+                    item.id,
+                    ...written.map(state => state.id)
+                  ],
+                  range: item.range
+                });
+              }
+              return;
+            }
+
+            // Unconditional writes: to its own dependencies, and on to other effects
+            const written = writtenStates(component, item.unguardedCalls || [], new Set());
+            const listed = item
+              .dependencies
+              .map(rootName);
+            const ownDependency = written.find(state => owners.get(state.id)!.component === component && listed.includes(state.name));
+            if (ownDependency) {
+              selfLoops.add(item.id);
+              conflicts.push({
+                id: `${item.id}-loop`,
+                type: 'effect-loop',
+                description: `${component.label}.${item.name} unconditionally sets ${ownDependency.name}, one of its own dependencies`,
+                items: [item.id, ownDependency.id],
+                range: item.range
+              });
+            }
+            effectEdges.set(item.id, written.flatMap(state => reachedEffects(state.id)));
+          });
+      });
+
+      // Cycles across effects, reported once per set of effects
+      const reported = new Set < string > ();
+      const findCycles = (path : string[]) => {
+        const current = path[path.length - 1];
+        (effectEdges.get(current) || []).forEach(next => {
+          if (next === path[0]) {
+            const key = [...path]
+              .sort()
+              .join('|');
+            if (reported.has(key) || (path.length === 1 && selfLoops.has(current))) 
+              return;
+            reported.add(key);
+            const labels = [
+              ...path,
+              path[0]
+            ].map(effectId => {
+              const {item, component} = owners.get(effectId)!;
+              return `${component.label}.${item.name}${item.range
+                ? ' (line ' + item.range.startLine + ')'
+                : ''}`;
+            });
+            conflicts.push({
+              id: `${path[0]}-cycle`,
+              type: 'effect-cycle',
+              description: `Effects trigger each other in a cycle: ${labels.join(' → ')}`,
+              items: path,
+              range: owners
+                .get(path[0])!
+                .item
+                .range
+            });
+          } else if (!path.includes(next) && next > path[0]) {
+            findCycles([
+              ...path,
+              next
+            ]);
+          }
+        });
+      };
+      effectEdges.forEach((_, effectId) => findCycles([effectId]));
+
+      return conflicts;
+    }
+
+    // State copied from props or context, the same state kept by several components,
+    // and state handed down through context and props at once
+    private detectStateOwnership(components : ComponentData[], flows : DataFlow[]) : ConflictData[] {
+      const conflicts : ConflictData[] = [];
+
+      const owners = new Map < string,
+        {
+          item: ComponentItem;
+          component: ComponentData
+        } > ();
+      components.forEach(component => {
+        component
+          .items
+          .forEach(item => owners.set(item.id, {item, component}));
+      });
+
+      // Ancestors in the render tree, nearest first, with their distance
+      const renderParents = new Map < ComponentData,
+        ComponentData[] > ();
+      this
+        .renderRelations
+        .forEach(({parent, child}) => {
+          const parents = renderParents.get(child) || [];
+          if (!parents.includes(parent)) {
+            parents.push(parent);
+          }
+          renderParents.set(child, parents);
+        });
+      const ancestors = (component : ComponentData) => {
+        const distances = new Map < ComponentData,
+          number > ([
+            [component, 0]
+          ]);
+        const queue = [component];
+        while (queue.length > 0) {
+          const current = queue.shift()!;
+          (renderParents.get(current) || []).forEach(parent => {
+            if (!distances.has(parent)) {
+              distances.set(parent, distances.get(current)! + 1);
+              queue.push(parent);
+            }
+          });
+        }
+        return distances;
+      };
+      const commonAncestor = (group : ComponentData[]) : ComponentData | undefined => {
+        const all = group.map(ancestors);
+        let best : ComponentData | undefined;
+        let bestDistance = Infinity;
+        all[0].forEach((_, candidate) => {
+          if (!all.every(distances => distances.has(candidate))) 
+            return;
+          const distance = Math.max(...all.map(distances => distances.get(candidate)!));
+          if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+          }
+        });
+        return best;
+      };
+
+      // Where a prop's value comes from, following prop-to-prop flows upwards
+      const sourceOwners = (itemId : string, seen : Set < string >) : ComponentData[] => flows
+        .filter(flow => flow.toItem === itemId && !seen.has(flow.fromItem))
+        .flatMap(flow => {
+          seen.add(flow.fromItem);
+          const source = owners.get(flow.fromItem);
+          if (!source) 
+            return [];
+          return source.item.type === 'prop' || source.item.type === 'prop-function'
+            ? sourceOwners(source.item.id, seen)
+            : [source.component];
+        });
+
+      // Derived state: useState(props.value) or useState(user) from context
+      components.forEach(component => {
+        component
+          .items
+          .filter(item => item.type === 'state' && item.initialReads)
+          .forEach(state => {
+            const sources = state
+              .initialReads!
+              .map(name => {
+                const parts = name.split('.');
+                const rootName = parts[0] === 'props' && parts.length > 1
+                  ? parts[1]
+                  : parts[0];
+                return component
+                  .items
+                  .find(item => (item.name === rootName || item.name === `${rootName}()`) && ['prop', 'prop-function', 'context-consumer'].includes(item.type));
+              })
+              .filter((item) : item is ComponentItem => !!item);
+            if (sources.length === 0) 
+              return;
+            
+            const source = sources[0];
+            const upstream = source.type === 'context-consumer'
+              ? []
+              : sourceOwners(source.id, new Set()).filter((owner, index, all) => all.indexOf(owner) === index);
+            const origin = source.type === 'context-consumer'
+              ? `context ${source.contextName || source.name}`
+              : `prop ${source.name}`;
+            conflicts.push({
+              id: `${state.id}-derived`,
+              type: 'derived-state',
+              description: `${component.label}.${state.name} is initialized from ${origin} and goes stale when it changes${upstream.length > 0
+                ? `; it is owned by ${upstream
+                  .map(owner => owner.label)
+                  .join(', ')}`
+                : ''}`,
+              items: [
+                state.id,
+                ...sources.map(item => item.id)
+              ],
+              range: state.range,
+              owners: [
+                component.id,
+                ...upstream.map(owner => owner.id)
+              ],
+              commonAncestor: upstream.length === 1
+                ? upstream[0].id
+                : undefined
+            });
+          });
+      });
+
+      // Duplicated state: the same state name owned by components sharing an ancestor
+      const statesByName = new Map < string,
+        ComponentItem[] > ();
+      components.forEach(component => {
+        if (component.kind !== 'component') 
+          return;
+        component
+          .items
+          .filter(item => item.type === 'state' && !LOCAL_STATE_NAMES.includes(item.name))
+          .forEach(state => statesByName.set(state.name, [
+            ...(statesByName.get(state.name) || []),
+            state
+          ]));
+      });
+      statesByName.forEach((states, stateName) => {
+        const group = states
+          .map(state => owners.get(state.id)!.component)
+          .filter((component, index, all) => all.indexOf(component) === index);
+        if (group.length < 2) 
+          return;
+        const ancestor = commonAncestor(group);
+        if (!ancestor) 
+          return;
+        
+        conflicts.push({
+          id: `${ancestor.id}-${stateName}-duplicated`,
+          type: 'duplicated-state',
+          description: `${group
+            .map(component => component.label)
+            .join(', ')} each own "${stateName}"; consider lifting it into ${ancestor.label}`,
+          items: states.map(state => state.id),
+          range: states[0].range,
+          owners: group.map(component => component.id),
+          commonAncestor: ancestor.id
+        });
+      });
+
+      // Mirrored state: provided through context and also passed down as props
+      components.forEach(component => {
+        const providers = component
+          .items
+          .filter(item => item.type === 'context-provider' && item.providedValue);
+        component
+          .items
+          .filter(item => item.type === 'state')
+          .forEach(state => {
+            const namePattern = new RegExp(`\\b${state.name}\\b`);
+            const provider = providers.find(item => namePattern.test(item.providedValue!));
+            const propTargets = flows
+              .filter(flow => flow.fromItem === state.id && flow.type === 'state-to-prop')
+              .map(flow => owners.get(flow.toItem))
+              .filter((target) : target is {
+                item: ComponentItem;
+                component: ComponentData
+              } => !!target);
+            if (!provider || propTargets.length === 0) 
+              return;
+            
+            conflicts.push({
+              id: `${state.id}-mirrored`,
+              type: 'mirrored-state',
+              description: `${component.label}.${state.name} is provided through ${provider.contextName || provider.name} and also passed as props to ${propTargets
+                .map(target => `${target.component.label}.${target.item.name}`)
+                .join(', ')}; pick one channel`,
+              items: [
+                state.id,
+                provider.id,
+                ...propTargets.map(target => target.item.id)
+              ],
+              range: state.range,
+              owners: [component.id],
+              commonAncestor: component.id
+            });
+          });
+      });
+
       return conflicts;
     }
 
+    private detectOrphans(components : ComponentData[]) : OrphanData[] {
+      const orphans : OrphanData[] = [];
+
+      const addOrphan = (orphan : OrphanData) => {
+        if (!orphans.some(o => o.id === orphan.id)) {
+          orphans.push(orphan);
+          this
+            .debugInfo
+            .analysisLog
+            .push(`Orphan (${orphan.type}): ${orphan.description}`);
+        }
+      };
+
+      components.forEach(component => {
+        const references = this
+          .componentReferences
+          .get(component.id);
+
+        // State never read, setters never called (class setState items are calls already)
+        if (references) {
+          component
+            .items
+            .forEach(item => {
+              if (item.type === 'state' && !references.has(item.name)) {
+                addOrphan({id: `${item.id}-orphan`, type: 'unread-state', description: `${component.label}.${item.name} is never read`, componentId: component.id, itemId: item.id});
+              } else if (item.type === 'setter' && !item.updates && !references.has(item.name)) {
+                addOrphan({id: `${item.id}-orphan`, type: 'uncalled-setter', description: `${component.label}.${item.name} is never called`, componentId: component.id, itemId: item.id});
+              }
+            });
+        }
+
+        if (component.kind !== 'component') 
+          return;
+        
+        const usages = this
+          .renderUsages
+          .filter(usage => usage.child === component);
+
+        // Default exports are often rendered by a framework (pages, routes, lazy imports)
+        if (usages.length === 0) {
+          const isDefaultExport = this
+            .componentIndex
+            .get(this.componentId(component.filePath, 'default')) === component;
+          if (!isDefaultExport) {
+            addOrphan({id: `${component.id}-orphan`, type: 'unrendered-component', description: `${component.label} is never rendered`, componentId: component.id});
+          }
+          return;
+        }
+
+        const props = component
+          .items
+          .filter(item => (item.type === 'prop' || item.type === 'prop-function') && !item.name.startsWith('...'));
+
+        // Declared props no parent passes
+        if (!usages.some(usage => usage.spreadsProps)) {
+          props.forEach(prop => {
+            if (!usages.some(usage => usage.props.includes(prop.name))) {
+              addOrphan({id: `${prop.id}-orphan`, type: 'unpassed-prop', description: `${component.label}.${prop.name} is declared but never passed`, componentId: component.id, itemId: prop.id});
+            }
+          });
+        }
+
+        // Passed props the component never declares (unless it takes ...rest or the whole props object)
+        const acceptsAnyProps = component
+          .items
+          .some(item => item.name.startsWith('...')) || !!(references && references.has('props'));
+        if (acceptsAnyProps) 
+          return;
+        usages.forEach(usage => {
+          usage
+            .props
+            .forEach(propName => {
+              if (propName === 'key' || propName === 'ref' || props.some(prop => prop.name === propName)) 
+                return;
+              addOrphan({id: `${component.id}-${propName}-undeclared-orphan`, type: 'undeclared-prop', description: `"${propName}" is passed to ${component.label} but never declared`, componentId: component.id, propName});
+            });
+        });
+      });
+
+      return orphans;
+    }
+
+    // The ...rest and ...props items only stand for the keys a component forwards;
+    // once flows and orphans have expanded them they are not drawn
+    private dropRestPlaceholders(components : ComponentData[]) {
+      components.forEach(component => {
+        const items = component
+          .items
+          .filter(item => !item.name.startsWith('...'));
+        if (items.length === component.items.length) 
+          return;
+        component.items = items;
+        component.width = this.componentWidth(component.name, items);
+        component.height = Math.max(100, items.length * 18 + 60);
+      });
+    }
+
     private generateBasicFlows(components : ComponentData[]) : DataFlow[] {
       const flows : DataFlow[] = [];
 
@@ -0,0 +1,268 @@
+import * as path from 'path';
+import type * as ts from 'typescript';
+import {PropDefinition} from './reactAnalyzer';
+
+// Resolves names with the TypeScript program and type checker of the analyzed
+// project, instead of matching them: local names to the declarations they refer
+// to through imports, aliases and re-exports, identifiers to the bindings they
+// read, and components to the props of their signature
+export class SymbolResolver {
+  private identifiers = new Map < string,
+  Map < string,
+  ts.Identifier > > (); // filePath -> top-level name -> its declaring identifier
+  private exports = new Map < string, {
+    filePath: string;
+    name: string
+  } | null > ();
+
+  private constructor(private readonly ts : typeof import('typescript'), private readonly program : ts.Program, private readonly checker : ts.TypeChecker) {}
+
+  // Uses the project's own TypeScript and nearest tsconfig.json; null when it has
+  // neither
+  static create(rootPath : string, log : (message : string) => void) : SymbolResolver | null {
+    let typescript : typeof import('typescript');
+    try {
+      typescript = require(require.resolve('typescript', {paths: [rootPath]}));
+    } catch (error) {
+      log(`Type checker: typescript is not installed in ${rootPath}`);
+      return null;
+    }
+
+    const configPath = typescript.findConfigFile(rootPath, typescript.sys.fileExists, 'tsconfig.json');
+    if (!configPath) {
+      log(`Type checker: no tsconfig.json found from ${rootPath}`);
+      return null;
+    }
+    const config = typescript.readConfigFile(configPath, typescript.sys.readFile);
+    if (config.error) {
+      log(`Type checker: cannot read ${configPath}: ${typescript.flattenDiagnosticMessageText(config.error.messageText, ' ')}`);
+      return null;
+    }
+
+    const parsed = typescript.parseJsonConfigFileContent(config.config, typescript.sys, path.dirname(configPath));
+    const program = typescript.createProgram({
+      rootNames: parsed.fileNames,
+      options: {
+        ...parsed.options,
+        noEmit: true
+      },
+      projectReferences: parsed.projectReferences
+    });
+    log(`Type checker: ${parsed.fileNames.length} files from ${configPath}`);
+    return new SymbolResolver(typescript, program, program.getTypeChecker());
+  }
+
+  // The declaration a name of a file refers to, following imports, aliases and
+  // re-exports: {filePath, name}, where name is 'default' for `export default
+  // memo(Button)`. Null for names declared outside the project
+  resolveExport(filePath : string, name : string) : {
+    filePath: string;
+    name: string
+  } | null {
+    const key = `${filePath}#${name}`;
+    if (this.exports.has(key)) {
+      return this
+        .exports
+        .get(key) as {
+        filePath: string;
+        name: string
+      } | null;
+    }
+
+    let resolved : {
+      filePath: string;
+      name: string
+    } | null = null;
+    const identifier = this
+      .topLevelIdentifiers(filePath)
+      .get(name);
+    const declaration = identifier && this.declarationOf(identifier);
+    if (declaration && !this.isExternal(declaration)) {
+      const declaredName = this.ts.isExportAssignment(declaration)
+        ? 'default'
+        : this
+          .ts
+          .getNameOfDeclaration(declaration)
+          ?.getText();
+      if (declaredName) {
+        resolved = {
+          filePath: path.resolve(declaration.getSourceFile().fileName),
+          name: declaredName
+        };
+      }
+    }
+
+    this
+      .exports
+      .set(key, resolved);
+    return resolved;
+  }
+
+  // The name of the component-level binding an identifier at offset reads, as
+  // its item is named: the prop name for destructured props ({value: v}). Null
+  // when it reads something else, such as a .map callback parameter or an
+  // import; undefined when it cannot be resolved
+  bindingName(filePath : string, offset : number) : string | null | undefined {
+    const source = this
+      .program
+      .getSourceFile(filePath);
+    const identifier = source && this.identifierAt(source, offset);
+    const declaration = identifier && this.declarationOf(identifier, false);
+    if (!identifier || !declaration)
+      return undefined;
+
+    // Declared directly within the outermost function around the identifier: the
+    // component, or the render method of a class component
+    const owner = this
+      .ts
+      .findAncestor(declaration.parent, this.ts.isFunctionLike);
+    let outermost : ts.Node | undefined;
+    for (let node : ts.Node | undefined = identifier.parent; node; node = node.parent) {
+      if (this.ts.isFunctionLike(node)) {
+        outermost = node;
+      }
+    }
+    if (!owner || owner !== outermost)
+      return null;
+
+    if (this.ts.isBindingElement(declaration) && declaration.propertyName && this.ts.isIdentifier(declaration.propertyName) && this.ts.findAncestor(declaration, this.ts.isParameter)) {
+      return declaration.propertyName.text;
+    }
+    const declaredName = this
+      .ts
+      .getNameOfDeclaration(declaration);
+    return declaredName && this.ts.isIdentifier(declaredName)
+      ? declaredName.text
+      : undefined;
+  }
+
+  // Props of a component's signature declared in the project: the first parameter
+  // of a function component, memo or forwardRef, or the props of a class
+  // component's constructor. Null when the component cannot be found
+  propTypes(filePath : string, componentName : string) : PropDefinition[] | null {
+    const identifier = this
+      .topLevelIdentifiers(filePath)
+      .get(componentName);
+    const symbol = identifier && this
+      .checker
+      .getSymbolAtLocation(identifier);
+    if (!identifier || !symbol)
+      return null;
+
+    const type = this
+      .checker
+      .getTypeOfSymbolAtLocation(symbol, identifier);
+    const signature = type.getCallSignatures()[0] || type.getConstructSignatures()[0];
+    const propsParameter = signature
+      ?.parameters[0];
+    if (!propsParameter)
+      return null;
+
+    return this
+      .checker
+      .getTypeOfSymbolAtLocation(propsParameter, identifier)
+      .getProperties()
+      .filter(prop => prop.declarations
+        ?.some(declaration => !this.isExternal(declaration)))
+      .map(prop => {
+        const declaration = prop.declarations
+          ?.[0];
+        const typeNode = declaration && (this.ts.isPropertySignature(declaration) || this.ts.isPropertyDeclaration(declaration))
+          ? declaration.type
+          : undefined;
+        return {
+          name: prop.getName(),
+          valueType: typeNode
+            ? typeNode.getText()
+            : this
+              .checker
+              .typeToString(this.checker.getTypeOfSymbolAtLocation(prop, identifier)),
+          optional: (prop.flags & this.ts.SymbolFlags.Optional) !== 0
+        };
+      });
+  }
+
+  // Identifiers declared at the top of a file: imports, functions, classes and
+  // variables
+  private topLevelIdentifiers(filePath : string) : Map < string,
+  ts.Identifier > {
+    const cached = this
+      .identifiers
+      .get(filePath);
+    if (cached)
+      return cached;
+
+    const identifiers = new Map < string,
+      ts.Identifier > ();
+    const add = (name : ts.Node | undefined) => {
+      if (name && this.ts.isIdentifier(name)) {
+        identifiers.set(name.text, name);
+      }
+    };
+    const source = this
+      .program
+      .getSourceFile(filePath);
+    source
+      ?.statements
+        .forEach(statement => {
+          if (this.ts.isImportDeclaration(statement) && statement.importClause) {
+            add(statement.importClause.name);
+            const bindings = statement.importClause.namedBindings;
+            if (bindings && this.ts.isNamedImports(bindings)) {
+              bindings
+                .elements
+                .forEach(element => add(element.name));
+            }
+          } else if (this.ts.isFunctionDeclaration(statement) || this.ts.isClassDeclaration(statement)) {
+            add(statement.name);
+          } else if (this.ts.isVariableStatement(statement)) {
+            statement
+              .declarationList
+              .declarations
+              .forEach(declaration => add(declaration.name));
+          }
+        });
+
+    this
+      .identifiers
+      .set(filePath, identifiers);
+    return identifiers;
+  }
+
+  // The declaration an identifier refers to, through import aliases unless
+  // followAliases is false (then an import resolves to the import itself)
+  private declarationOf(identifier : ts.Identifier, followAliases = true) : ts.Declaration | undefined {
+    let symbol = this
+      .checker
+      .getSymbolAtLocation(identifier);
+    if (symbol && followAliases && (symbol.flags & this.ts.SymbolFlags.Alias)) {
+      symbol = this
+        .checker
+        .getAliasedSymbol(symbol);
+    }
+    return symbol
+      ?.valueDeclaration || symbol
+        ?.declarations
+          ?.[0];
+  }
+
+  private identifierAt(node : ts.Node, offset : number) : ts.Identifier | undefined {
+    if (this.ts.isIdentifier(node) && node.getStart() === offset)
+      return node;
+    return this
+      .ts
+      .forEachChild(node, child => child.pos <= offset && offset < child.end
+        ? this.identifierAt(child, offset)
+        : undefined);
+  }
+
+  // Declared in a dependency or the standard library, not in the project
+  private isExternal(declaration : ts.Node) : boolean {
+    const fileName = declaration
+      .getSourceFile()
+      .fileName;
+    return fileName.includes('/node_modules/') || this
+      .program
+      .isSourceFileDefaultLibrary(declaration.getSourceFile());
+  }
+}
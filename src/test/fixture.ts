@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Writes a project into a new temporary directory and returns its path: files
+// are keyed by their path relative to it, objects are written as JSON
+export function createFixture(files : {
+  [relativePath : string]: string | object
+}) : string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'react-visualizer-'));
+  Object
+    .entries(files)
+    .forEach(([relativePath, content]) => {
+      const filePath = path.join(root, relativePath);
+      fs.mkdirSync(path.dirname(filePath), {recursive: true});
+      fs.writeFileSync(filePath, typeof content === 'string'
+        ? content
+        : JSON.stringify(content, null, 2));
+    });
+  return root;
+}
+
+export function removeFixture(root : string) {
+  fs.rmSync(root, {recursive: true, force: true});
+}
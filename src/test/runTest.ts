@@ -0,0 +1,18 @@
+import * as path from 'path';
+import {runTests} from '@vscode/test-electron';
+
+async function main() {
+  try {
+    // The folder containing the extension manifest package.json
+    const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+    // The test runner loaded by the extension host
+    const extensionTestsPath = path.resolve(__dirname, './suite/index');
+
+    await runTests({extensionDevelopmentPath, extensionTestsPath});
+  } catch (error) {
+    console.error('Failed to run tests');
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {AnalysisCache} from '../../analysisCache';
+import {ReactAnalyzer} from '../../reactAnalyzer';
+import {createFixture, removeFixture} from '../fixture';
+
+suite('AnalysisCache', () => {
+  let root : string;
+
+  teardown(() => removeFixture(root));
+
+  test('drops entries whose file or dependency changed, and their dependents', () => {
+    root = createFixture({'a.ts': 'a', 'b.ts': 'b', 'c.ts': 'c', 'outside.ts': 'o'});
+    const file = (name : string) => path.join(root, name);
+    const cache = new AnalysisCache();
+    // c depends on b, which depends on a file without an entry of its own
+    cache.set(file('b.ts'), AnalysisCache.hash('b'), [file('outside.ts')], 'summary', 'b');
+    cache.set(file('c.ts'), AnalysisCache.hash('c'), [file('b.ts')], 'summary', 'c');
+    cache.set(file('a.ts'), AnalysisCache.hash('a'), [], 'summary', 'a');
+
+    assert.deepStrictEqual(cache.invalidate(), []);
+    fs.writeFileSync(file('outside.ts'), 'changed');
+    assert.deepStrictEqual(cache.invalidate().sort(), [file('b.ts'), file('c.ts')]);
+    assert.strictEqual(cache.get(file('a.ts'), 'summary'), 'a');
+    assert.strictEqual(cache.get(file('c.ts'), 'summary'), undefined);
+  });
+
+  test('analyzes again the files whose imported types changed outside the analyzed folder', async() => {
+    root = createFixture({
+      'shared/types.ts': 'export interface CardProps {\n  title: string;\n}',
+      'app/Card.tsx': `import {CardProps} from '../shared/types';
+
+export function Card({title}: CardProps) {
+  return <h2>{title}</h2>;
+}`
+    });
+    const cachePath = path.join(root, 'cache.json');
+    const analyze = async() => {
+      const result = await new ReactAnalyzer(new AnalysisCache(cachePath, 'test')).analyzeReactProject(path.join(root, 'app'), {workers: 0});
+      return result
+        .components[0]
+        .items
+        .map(item => `${item.name}: ${item.valueType}`);
+    };
+
+    assert.deepStrictEqual(await analyze(), ['title: string']);
+    fs.writeFileSync(path.join(root, 'shared/types.ts'), 'export interface CardProps {\n  title: number;\n  extra?: boolean;\n}');
+    assert.deepStrictEqual(await analyze(), ['title: number', 'extra: boolean']);
+  });
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import {spawnSync} from 'child_process';
+import {createFixture, removeFixture} from '../fixture';
+
+const CLI = path.join(__dirname, '..', '..', 'cli.js');
+
+const FILES = {
+  'src/App.tsx': `import {useState} from 'react';
+import {Header} from './Header';
+
+export function App() {
+  const [title, setTitle] = useState('Home');
+  return <Header title={title} onRename={setTitle} />;
+}`,
+  'src/Header.tsx': `export function Header({title, onRename}: {title: string; onRename: (title: string) => void}) {
+  return <h1>{title}</h1>;
+}`,
+  'src/List.tsx': `function Row({label}: {label: string}) {
+  return <li>{label}</li>;
+}
+
+export function List({items}: {items: string[]}) {
+  return <ul>{items.map(item => <Row label={item} />)}</ul>;
+}`
+};
+
+suite('react-visualizer command line', () => {
+  let root : string;
+
+  setup(() => {
+    root = createFixture(FILES);
+  });
+
+  teardown(() => removeFixture(root));
+
+  const run = (...args : string[]) => spawnSync(process.execPath, [
+    CLI, ...args
+  ], {
+    cwd: root,
+    encoding: 'utf-8'
+  });
+
+  test('writes the analysis as JSON to stdout and the summary to stderr', () => {
+    const {status, stdout, stderr} = run('src', '--workers', '0');
+
+    assert.strictEqual(status, 0);
+    const result = JSON.parse(stdout);
+    assert.deepStrictEqual(result.components.map((component : any) => component.name).sort(), ['App', 'Header', 'List', 'Row']);
+    assert.match(stderr, /^4 components, 2 flows, 1 conflicts \(0 info, 0 warning, 1 error\), 0 parse errors$/m);
+  });
+
+  test('exits with 1 when a conflict reaches the --fail-on severity', () => {
+    const failing = run('src', '--workers', '0', '--fail-on', 'error');
+    assert.strictEqual(failing.status, 1);
+    assert.match(failing.stderr, /^src\/List\.tsx:6:\d+: error missing-key: /m);
+
+    assert.strictEqual(run('src', '--workers', '0', '--fail-on', 'none').status, 0);
+  });
+
+  test('reads options from the config file, with paths relative to it', () => {
+    fs.writeFileSync(path.join(root, 'src', 'react-visualizer.config.json'), JSON.stringify({
+      output: '../report/analysis.json',
+      failOn: 'warning',
+      workers: 0,
+      severities: {
+        'missing-key': 'info'
+      }
+    }));
+    const {status, stdout} = run('src');
+
+    assert.strictEqual(status, 0);
+    assert.strictEqual(stdout, '');
+    const result = JSON.parse(fs.readFileSync(path.join(root, 'report', 'analysis.json'), 'utf-8'));
+    assert.strictEqual(result.components.length, 4);
+  });
+
+  test('exits with 2 and the usage on invalid arguments', () => {
+    const unknown = run('src', '--verbose');
+    assert.strictEqual(unknown.status, 2);
+    assert.match(unknown.stderr, /^Unexpected argument --verbose\n\nUsage: /);
+
+    assert.match(run('src', '--fail-on', 'fatal').stderr, /^--fail-on must be one of info, warning, error, none, got fatal/);
+    assert.match(run('src', '--workers', 'two').stderr, /^--workers needs a whole number, got two/);
+    assert.match(run('src', '--prop-drilling-depth', '0').stderr, /^--prop-drilling-depth needs a whole number of at least 1, got 0/);
+    assert.match(run('missing').stderr, /does not exist/);
+  });
+
+  test('exits with 2 on invalid config files', () => {
+    const configPath = path.join(root, 'config.json');
+    const runWithConfig = (config : string) => {
+      fs.writeFileSync(configPath, config);
+      return run('src', '--config', configPath);
+    };
+
+    const unreadable = runWithConfig('{"failOn": ');
+    assert.strictEqual(unreadable.status, 2);
+    assert.match(unreadable.stderr, /^Cannot read config file /);
+    assert.match(runWithConfig('{"failOn": "fatal"}').stderr, /^failOn in .* must be one of info, warning, error, none, got fatal/);
+    assert.match(runWithConfig('{"severities": {"missing-key": "none"}}').stderr, /^severities\.missing-key in .* cannot be none/);
+    assert.match(run('src', '--config', path.join(root, 'absent.json')).stderr, /^Config file .* not found/);
+    assert.match(runWithConfig('[]').stderr, /^Config file .* must hold an object/);
+    assert.match(runWithConfig('{"failsOn": "error"}').stderr, /^Unknown option failsOn in .*, expected one of propDrillingDepth, /);
+    assert.match(runWithConfig('{"propDrillingDepth": "abc"}').stderr, /^propDrillingDepth in .* needs a whole number of at least 1, got abc/);
+    assert.match(runWithConfig('{"propDrillingDepth": 0}').stderr, /^propDrillingDepth in .* needs a whole number of at least 1, got 0/);
+    assert.match(runWithConfig('{"workers": -1}').stderr, /^workers in .* needs a whole number, got -1/);
+    assert.match(runWithConfig('{"typeChecker": "yes"}').stderr, /^typeChecker in .* must be true or false, got yes/);
+    assert.match(runWithConfig('{"output": 1}').stderr, /^output in .* must be a file path, got 1/);
+    assert.match(runWithConfig('{"severities": {"missing-keys": "info"}}').stderr, /^severities\.missing-keys in .* is not a conflict type/);
+  });
+});
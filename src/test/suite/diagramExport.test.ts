@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import {ReactAnalyzer, AnalysisResult} from '../../reactAnalyzer';
+import {toMermaid, toDot, flowKey} from '../../diagramExport';
+import {createFixture, removeFixture} from '../fixture';
+
+const FILES = {
+  'App.tsx': `import {useState} from 'react';
+import {Header} from './Header';
+
+export function App() {
+  const [title, setTitle] = useState('Home');
+  return <Header title={title} onRename={setTitle} />;
+}`,
+  'Header.tsx': `export function Header({title, onRename}: {title: string; onRename: (title: string) => void}) {
+  return <h1 onClick={() => onRename('x')}>{title}</h1>;
+}`,
+  'List.tsx': `import {useState} from 'react';
+
+function Row({label}: {label: string}) {
+  return <li>{label}</li>;
+}
+
+export function List({items}: {items: string[]}) {
+  const [count] = useState(items.length);
+  return <ul>{items.map(item => <Row label={item} />)}</ul>;
+}`
+};
+
+suite('diagramExport', () => {
+  let root : string;
+  let result : AnalysisResult;
+
+  suiteSetup(async() => {
+    root = createFixture(FILES);
+    result = await new ReactAnalyzer().analyzeReactProject(root, {workers: 0});
+  });
+
+  suiteTeardown(() => removeFixture(root));
+
+  const componentId = (name : string) => result
+    .components
+    .find(component => component.name === name)!
+    .id;
+
+  test('writes a Mermaid subgraph per component with flows between items', () => {
+    const mermaid = toMermaid(result);
+    const lines = mermaid.split('\n');
+
+    assert.strictEqual(lines[0], 'flowchart LR');
+    const app = lines.find(line => line.includes('["App"]'))!;
+    const header = lines.find(line => line.includes('["Header"]'))!;
+    assert.match(app, /^  subgraph c\d+ \["App"\]$/);
+    const appNode = app.split(' ')[3];
+    const headerNode = header.split(' ')[3];
+
+    assert.ok(lines.includes(`    ${appNode}_0["title: state"]`));
+    assert.ok(lines.includes(`    ${headerNode}_1["onRename: prop-function"]`));
+    assert.ok(lines.includes(`  ${appNode} -.-> ${headerNode}`));
+    assert.ok(lines.includes(`  ${appNode}_0 -->|state-to-prop| ${headerNode}_0`));
+    assert.ok(lines.includes(`  ${appNode}_1 -->|setter-to-prop| ${headerNode}_1`));
+    assert.ok(lines.some(line => /^  class (c\d+_\d+,)*c\d+_\d+ conflict$/.test(line)));
+  });
+
+  test('writes a DOT record node per component with a port per item', () => {
+    const dot = toDot(result);
+    const lines = dot.split('\n');
+
+    assert.strictEqual(lines[0], 'digraph ReactComponents {');
+    const header = lines.find(line => line.includes('Header|'))!;
+    assert.match(header, /^  c\d+ \[label="Header\|<i0> title: prop\|<i1> onRename: prop-function"\];$/);
+    const list = lines.find(line => line.includes('List|'))!;
+    assert.match(list, /color="#ef4444"/);
+    assert.ok(lines.some(line => /^  c\d+:i0 -> c\d+:i0 \[label="state-to-prop"\];$/.test(line)));
+    assert.strictEqual(lines[lines.length - 2], '}');
+  });
+
+  test('leaves out components and flows the filter does not list', () => {
+    const titleFlow = result
+      .flows
+      .find(flow => flow.toItem === `${componentId('Header')}-title`)!;
+    const filter = {
+      components: [
+        componentId('App'), componentId('Header')
+      ],
+      flows: [flowKey(titleFlow)]
+    };
+
+    const mermaid = toMermaid(result, filter);
+    assert.ok(!mermaid.includes('List'));
+    assert.ok(mermaid.includes('|state-to-prop|'));
+    assert.ok(!mermaid.includes('|setter-to-prop|'));
+
+    const dot = toDot(result, filter);
+    assert.ok(!dot.includes('List'));
+    assert.ok(!dot.includes('setter-to-prop'));
+  });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {ImportResolver} from '../../importResolver';
+import {createFixture, removeFixture} from '../fixture';
+
+suite('ImportResolver', () => {
+  let root : string;
+
+  teardown(() => removeFixture(root));
+
+  test('resolves relative imports by trying source extensions and index files', () => {
+    root = createFixture({
+      'src/App.tsx': '',
+      'src/Button.jsx': '',
+      'src/forms/index.ts': ''
+    });
+    const resolver = new ImportResolver(root);
+    const app = path.join(root, 'src/App.tsx');
+
+    assert.strictEqual(resolver.resolve(app, './Button'), path.join(root, 'src/Button.jsx'));
+    assert.strictEqual(resolver.resolve(app, './forms'), path.join(root, 'src/forms/index.ts'));
+    assert.strictEqual(resolver.resolve(app, './Missing'), null);
+  });
+
+  test('applies paths inherited through tsconfig extends, relative to the config declaring them', () => {
+    root = createFixture({
+      'tsconfig.base.json': `{
+        // comments and trailing commas are allowed
+        "compilerOptions": {"baseUrl": ".", "paths": {"@/*": ["src/*"],},},
+      }`,
+      'app/tsconfig.json': {
+        extends: '../tsconfig.base.json'
+      },
+      'app/main.tsx': '',
+      'src/ui/Card.tsx': ''
+    });
+    const resolver = new ImportResolver(root);
+
+    assert.strictEqual(resolver.resolve(path.join(root, 'app/main.tsx'), '@/ui/Card'), path.join(root, 'src/ui/Card.tsx'));
+  });
+
+  test('resolves inherited paths from the baseUrl of the extending config', () => {
+    root = createFixture({
+      'node_modules/@acme/tsconfig/base.json': {
+        compilerOptions: {
+          paths: {
+            '~/*': ['./*']
+          }
+        }
+      },
+      'web/tsconfig.json': {
+        extends: '@acme/tsconfig/base.json',
+        compilerOptions: {
+          baseUrl: 'src'
+        }
+      },
+      'web/src/pages/Home.tsx': '',
+      'web/src/lib/format.ts': ''
+    });
+    const resolver = new ImportResolver(root);
+    const home = path.join(root, 'web/src/pages/Home.tsx');
+
+    assert.strictEqual(resolver.resolve(home, '~/lib/format'), path.join(root, 'web/src/lib/format.ts'));
+    // baseUrl alone makes non-relative specifiers resolve from it
+    assert.strictEqual(resolver.resolve(home, 'lib/format'), path.join(root, 'web/src/lib/format.ts'));
+  });
+
+  test('resolves workspace packages through their exports', () => {
+    root = createFixture({
+      'package.json': {
+        private: true,
+        workspaces: ['packages/*', 'apps/*']
+      },
+      'packages/ui/package.json': {
+        name: '@acme/ui',
+        main: './dist/index.js',
+        exports: {
+          '.': {
+            types: './dist/index.d.ts',
+            import: './src/index.ts'
+          },
+          './button': './src/Button.tsx',
+          './icons/*': './src/icons/*.tsx'
+        }
+      },
+      'packages/ui/src/index.ts': '',
+      'packages/ui/src/Button.tsx': '',
+      'packages/ui/src/icons/Star.tsx': '',
+      'apps/web/src/App.tsx': ''
+    });
+    const resolver = new ImportResolver(path.join(root, 'apps/web'));
+    const app = path.join(root, 'apps/web/src/App.tsx');
+
+    assert.strictEqual(resolver.resolve(app, '@acme/ui'), path.join(root, 'packages/ui/src/index.ts'));
+    assert.strictEqual(resolver.resolve(app, '@acme/ui/button'), path.join(root, 'packages/ui/src/Button.tsx'));
+    assert.strictEqual(resolver.resolve(app, '@acme/ui/icons/Star'), path.join(root, 'packages/ui/src/icons/Star.tsx'));
+    assert.strictEqual(resolver.resolve(app, 'react'), null);
+  });
+
+  test('finds workspace packages listed in pnpm-workspace.yaml', () => {
+    root = createFixture({
+      'pnpm-workspace.yaml': 'packages:\n  - "libs/*"\n  - "!libs/ignored"\n',
+      'libs/hooks/package.json': {
+        name: 'hooks'
+      },
+      'libs/hooks/src/index.ts': '',
+      'app/App.tsx': ''
+    });
+    const resolver = new ImportResolver(root);
+
+    assert.strictEqual(resolver.resolve(path.join(root, 'app/App.tsx'), 'hooks'), path.join(root, 'libs/hooks/src/index.ts'));
+  });
+});
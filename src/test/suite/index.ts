@@ -0,0 +1,22 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Mocha from 'mocha';
+
+// Entry point of the extension host test run: every *.test.js next to this file
+export function run() : Promise < void > {
+  const mocha = new Mocha({ui: 'tdd', color: true, timeout: 20000});
+  fs
+    .readdirSync(__dirname)
+    .filter(file => file.endsWith('.test.js'))
+    .forEach(file => mocha.addFile(path.join(__dirname, file)));
+
+  return new Promise((resolve, reject) => {
+    mocha.run(failures => {
+      if (failures > 0) {
+        reject(new Error(`${failures} tests failed.`));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
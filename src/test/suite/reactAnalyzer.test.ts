@@ -0,0 +1,900 @@
+import * as assert from 'assert';
+import {ReactAnalyzer, AnalysisResult, AnalyzerOptions} from '../../reactAnalyzer';
+import {createFixture, removeFixture} from '../fixture';
+
+// Analyzes a project written from files, on the main thread
+async function analyze(files : {
+  [relativePath : string]: string | object
+}, options : AnalyzerOptions = {}) : Promise < AnalysisResult > {
+  const root = createFixture(files);
+  try {
+    return await new ReactAnalyzer().analyzeReactProject(root, {
+      workers: 0,
+      ...options
+    });
+  } finally {
+    removeFixture(root);
+  }
+}
+
+// Flows as Component.item -> Component.item
+const flowNames = (result : AnalysisResult) => result
+  .flows
+  .map(flow => `${flow.fromItem.split('#')[1].replace('-', '.')} -> ${flow.toItem.split('#')[1].replace('-', '.')}`);
+
+const item = (result : AnalysisResult, componentName : string, itemName : string) => result
+  .components
+  .find(component => component.name === componentName)
+  ?.items
+  .find(componentItem => componentItem.name === itemName);
+
+suite('ReactAnalyzer', () => {
+  suite('spread props', () => {
+    const FORM = `import {useState} from 'react';
+
+function Input({label, ...rest}: {label: string; value: string; onChange: (value: string) => void}) {
+  return <label>{label}<input {...rest} /></label>;
+}
+
+function Wrapper({label, ...rest}) {
+  return <Input label={label} {...rest} />;
+}
+
+function TypedWrapper({label, ...rest}: {label: string; value: string; name: string}) {
+  return <Input label={label} {...rest} />;
+}
+
+export function Form() {
+  const [value, setValue] = useState('');
+  const field = {value, onChange: setValue};
+  return <div>
+    <Wrapper label="a" value={value} />
+    <TypedWrapper label="b" value={value} name="n" />
+    <Input label="c" {...field} />
+  </div>;
+}`;
+
+    test('forwards props collected by an untyped rest element', async() => {
+      const result = await analyze({'Form.tsx': FORM});
+
+      assert.ok(flowNames(result).includes('Form.value -> Wrapper.value'));
+      assert.ok(flowNames(result).includes('Wrapper.value -> Input.value'));
+      assert.strictEqual(item(result, 'Wrapper', 'value')
+        ?.passThrough, true);
+    });
+
+    test('forwards declared props a typed rest element collects', async() => {
+      const result = await analyze({'Form.tsx': FORM});
+
+      assert.ok(flowNames(result).includes('Form.value -> TypedWrapper.value'));
+      assert.ok(flowNames(result).includes('TypedWrapper.value -> Input.value'));
+      ['value', 'name'].forEach(name => {
+        assert.strictEqual(item(result, 'TypedWrapper', name)
+          ?.restOf, 'rest');
+        assert.strictEqual(item(result, 'TypedWrapper', name)
+          ?.passThrough, true);
+      });
+      assert.strictEqual(item(result, 'TypedWrapper', 'label')
+        ?.restOf, undefined);
+    });
+
+    test('forwards the properties of a local object literal', async() => {
+      const result = await analyze({'Form.tsx': FORM});
+
+      assert.ok(flowNames(result).includes('Form.value -> Input.value'));
+      assert.ok(flowNames(result).includes('Form.setValue -> Input.onChange'));
+    });
+
+    test('forwards props destructured in the body or spread as a whole', async() => {
+      const result = await analyze({
+        'Page.tsx': `import {useState} from 'react';
+
+function Inner({x}) {
+  return <span>{x}</span>;
+}
+
+function W2(props) {
+  const {a, ...rest} = props;
+  return <Inner {...rest} />;
+}
+
+function W3(props) {
+  return <Inner {...props} />;
+}
+
+export function Page() {
+  const [s, setS] = useState('');
+  return <div><W2 a={1} x={s} /><W3 x={s} /></div>;
+}`
+      });
+
+      assert.ok(flowNames(result).includes('Page.s -> W2.x'));
+      assert.ok(flowNames(result).includes('W2.x -> Inner.x'));
+      assert.ok(flowNames(result).includes('Page.s -> W3.x'));
+      assert.ok(flowNames(result).includes('W3.x -> Inner.x'));
+      assert.strictEqual(item(result, 'W2', 'x')
+        ?.passThrough, true);
+    });
+
+    test('does not draw the rest placeholders once their keys are expanded', async() => {
+      const result = await analyze({'Form.tsx': FORM});
+
+      result
+        .components
+        .forEach(component => component.items.forEach(componentItem => assert.ok(!componentItem.name.startsWith('...'), `${component.name}.${componentItem.name}`)));
+      assert.ok(item(result, 'Wrapper', 'value'));
+      assert.strictEqual(result.orphans.filter(orphan => orphan.type === 'undeclared-prop').length, 0);
+    });
+  });
+
+  suite('prop drilling', () => {
+    const DRILLING = `import {useState} from 'react';
+
+function Avatar({user}) {
+  return <img alt={user.name} />;
+}
+
+function Menu({user}) {
+  return <Avatar user={user} />;
+}
+
+function Header({user}) {
+  return <Menu user={user} />;
+}
+
+function Layout({user}) {
+  return <Header user={user} />;
+}
+
+export function Deep() {
+  const [user, setUser] = useState({name: 'a'});
+  return <Layout user={user} />;
+}
+
+export function Shallow() {
+  const [account, setAccount] = useState({name: 'b'});
+  return <Header user={account} />;
+}`;
+
+    const drilled = (result : AnalysisResult) => result
+      .conflicts
+      .filter(conflict => conflict.type === 'prop-drilling')
+      .map(conflict => conflict.description);
+
+    test('reports a value forwarded through three components', async() => {
+      const result = await analyze({'App.tsx': DRILLING});
+
+      assert.deepStrictEqual(drilled(result), ['Deep.user is drilled through 3 components (Layout → Header → Menu) to Avatar.user']);
+    });
+
+    test('reports shorter chains with a lower depth', async() => {
+      const result = await analyze({
+        'App.tsx': DRILLING
+      }, {propDrillingDepth: 2});
+
+      assert.deepStrictEqual(drilled(result).sort(), ['Deep.user is drilled through 3 components (Layout → Header → Menu) to Avatar.user', 'Shallow.account is drilled through 2 components (Header → Menu) to Avatar.user']);
+    });
+  });
+
+  suite('orphans', () => {
+    const ORPHANS = `import {useState} from 'react';
+
+function Badge({label, color}) {
+  return <span style={{color}}>{label}</span>;
+}
+
+function Unused() {
+  return <p>never rendered</p>;
+}
+
+export default function App() {
+  const [count, setCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  return <div onClick={() => setOpen(!open)}><Badge label="x" size="lg" /></div>;
+}`;
+
+    test('reports unused state, setters, props and components', async() => {
+      const result = await analyze({'App.tsx': ORPHANS});
+
+      assert.deepStrictEqual(result.orphans.map(orphan => `${orphan.type}: ${orphan.description}`).sort(), [
+        'uncalled-setter: App.setCount is never called',
+        'undeclared-prop: "size" is passed to Badge but never declared',
+        'unpassed-prop: Badge.color is declared but never passed',
+        'unread-state: App.count is never read',
+        'unrendered-component: Unused is never rendered'
+      ]);
+    });
+
+    test('accepts any prop on a component collecting the others in a rest element', async() => {
+      const result = await analyze({
+        'App.tsx': ORPHANS.replace('function Badge({label, color})', 'function Badge({label, color, ...rest})')
+      });
+
+      assert.ok(!result.orphans.some(orphan => orphan.type === 'undeclared-prop'));
+    });
+  });
+
+  suite('state ownership', () => {
+    const OWNERSHIP = `import {createContext, useState} from 'react';
+
+export const UserContext = createContext(null);
+
+function Editor({value}) {
+  const [draft, setDraft] = useState(value);
+  return <input value={draft} onChange={e => setDraft(e.target.value)} />;
+}
+
+function Sidebar() {
+  const [selected, setSelected] = useState(null);
+  return <nav onClick={() => setSelected(1)}>{selected}</nav>;
+}
+
+function Content() {
+  const [selected, setSelected] = useState(null);
+  return <main onClick={() => setSelected(2)}>{selected}</main>;
+}
+
+function Profile({user}) {
+  return <span>{user}</span>;
+}
+
+export default function App() {
+  const [text, setText] = useState('');
+  const [user, setUser] = useState(null);
+  return <UserContext.Provider value={user}>
+    <Editor value={text} />
+    <Sidebar />
+    <Content />
+    <Profile user={user} />
+    <button onClick={() => { setText('a'); setUser('b'); }} />
+  </UserContext.Provider>;
+}`;
+
+    // Conflicts of one type as their descriptions, with the component owning the fix
+    const ownership = (result : AnalysisResult, type : string) => result
+      .conflicts
+      .filter(conflict => conflict.type === type)
+      .map(conflict => [conflict.description, conflict.commonAncestor?.split('#')[1]]);
+
+    test('reports state initialized from a prop, with the owner of the prop', async() => {
+      const result = await analyze({'App.tsx': OWNERSHIP});
+
+      assert.deepStrictEqual(ownership(result, 'derived-state'), [
+        ['Editor.draft is initialized from prop value and goes stale when it changes; it is owned by App', 'App']
+      ]);
+    });
+
+    test('reports the same state owned by siblings, with the ancestor to lift it into', async() => {
+      const result = await analyze({'App.tsx': OWNERSHIP});
+
+      assert.deepStrictEqual(ownership(result, 'duplicated-state'), [
+        ['Sidebar, Content each own "selected"; consider lifting it into App', 'App']
+      ]);
+    });
+
+    test('reports state both provided through context and passed as a prop', async() => {
+      const result = await analyze({'App.tsx': OWNERSHIP});
+
+      assert.deepStrictEqual(ownership(result, 'mirrored-state'), [
+        ['App.user is provided through UserContext and also passed as props to Profile.user; pick one channel', 'App']
+      ]);
+    });
+  });
+
+  suite('lists and conditions', () => {
+    const LISTS = `import {useState} from 'react';
+
+function Row({todo}) {
+  return <li>{todo.title}</li>;
+}
+
+function Tag({name}) {
+  return <b>{name}</b>;
+}
+
+function Spinner() {
+  return <p>loading</p>;
+}
+
+export default function App({todos, tags}) {
+  const [loading, setLoading] = useState(false);
+  return <div onClick={() => setLoading(true)}>
+    {loading && <Spinner />}
+    <ul>{todos.map(todo => <Row todo={todo} />)}</ul>
+    {tags.map((tag, index) => <Tag key={index} name={tag} />)}
+  </div>;
+}`;
+
+    const edge = (result : AnalysisResult, childName : string) => result
+      .renderEdges
+      .find(renderEdge => renderEdge.child.endsWith(`#${childName}`))!;
+
+    test('reports list items without a key or keyed by their index', async() => {
+      const result = await analyze({'App.tsx': LISTS});
+
+      assert.deepStrictEqual(result.conflicts.map(conflict => `${conflict.type}: ${conflict.description}`), ['missing-key: Row rendered by App for each of todos has no key', 'index-key: Tag rendered by App for each of tags uses the index as key (index), so items lose their state when the list is reordered']);
+    });
+
+    test('records the condition and the list each child is rendered under', async() => {
+      const result = await analyze({'App.tsx': LISTS});
+
+      const spinner = edge(result, 'Spinner');
+      assert.strictEqual(spinner.conditional, true);
+      assert.deepStrictEqual(spinner.conditions.map(condition => condition.expression), ['loading']);
+      assert.ok(spinner.conditions[0].dependsOn[0].endsWith('#App-loading'));
+
+      const row = edge(result, 'Row');
+      assert.deepStrictEqual([row.conditional, row.inList], [false, true]);
+      assert.deepStrictEqual(row.lists.map(list => [list.source, list.key, list.keyIsIndex]), [
+        ['todos', undefined, false]
+      ]);
+      assert.deepStrictEqual(edge(result, 'Tag').lists.map(list => [list.source, list.key, list.keyIsIndex]), [
+        ['tags', 'index', true]
+      ]);
+    });
+  });
+
+  suite('server components', () => {
+    const NEXT_APP = {
+      'package.json': {
+        dependencies: {
+          next: '14.0.0'
+        }
+      },
+      'components/Counter.tsx': `'use client';
+import {useState} from 'react';
+
+export function Counter({label}: {label: string}) {
+  const [count, setCount] = useState(0);
+  return <button onClick={() => setCount(count + 1)}>{label} {count}</button>;
+}`,
+      'components/Title.tsx': `export function Title({text}: {text: string}) {
+  return <h1>{text}</h1>;
+}`,
+      'app/page.tsx': `import {useState} from 'react';
+import {Counter} from '../components/Counter';
+import {Title} from '../components/Title';
+
+export default function Home() {
+  const [open, setOpen] = useState(false);
+  return <main><Title text="Home" /><Counter label="Clicks" /></main>;
+}`,
+      'pages/blog/[slug].tsx': `import {useState} from 'react';
+import {Counter} from '../../components/Counter';
+
+export default function Post() {
+  const [liked, setLiked] = useState(false);
+  return <Counter label="Likes" />;
+}`
+    };
+
+    test('renders App Router components and what they import on the server', async() => {
+      const result = await analyze(NEXT_APP);
+      const environment = (name : string) => result
+        .components
+        .find(component => component.name === name)
+        ?.environment;
+
+      assert.strictEqual(environment('Home'), 'server');
+      assert.strictEqual(environment('Title'), 'server');
+      assert.strictEqual(environment('Counter'), 'client');
+      assert.ok(result.renderEdges.some(edge => edge.boundary && edge.child.endsWith('#Counter')));
+      assert.deepStrictEqual(result.conflicts.filter(conflict => conflict.type === 'server-hook').map(conflict => conflict.description), ['Server component Home calls useState, which only works in client components']);
+    });
+
+    test('leaves components outside the App Router unclassified', async() => {
+      const result = await analyze(NEXT_APP);
+      const post = result
+        .components
+        .find(component => component.name === 'Post')!;
+
+      assert.strictEqual(post.environment, undefined);
+      assert.ok(!result.conflicts.some(conflict => conflict.items.some(itemId => itemId.startsWith(post.id))));
+    });
+
+    test('classifies nothing as server without an App Router', async() => {
+      const {'app/page.tsx': page, ...files} = NEXT_APP;
+      const result = await analyze({
+        ...files,
+        'src/Screen.tsx': page
+      });
+
+      assert.ok(!result.components.some(component => component.environment === 'server'));
+      assert.ok(!result.conflicts.some(conflict => conflict.type === 'server-hook'));
+    });
+  });
+
+  suite('contexts', () => {
+    const THEME = `import * as React from 'react';
+
+export const Theme = React.createContext('light');
+
+function Label() {
+  const theme = React.useContext(Theme);
+  return <span>{theme}</span>;
+}
+
+function Toolbar() {
+  return <Label />;
+}
+
+export function App() {
+  const [theme, setTheme] = React.useState('dark');
+  return <Theme.Provider value={theme}><Toolbar /></Theme.Provider>;
+}`;
+
+    test('links providers to the consumers they render, through other components', async() => {
+      const result = await analyze({'App.tsx': THEME});
+
+      assert.deepStrictEqual(item(result, 'Label', 'theme()')
+        ?.type, 'context-consumer');
+      assert.ok(flowNames(result).includes('App.ThemeProvider -> Label.theme'));
+      assert.strictEqual(result.flows.find(flow => flow.toItem.endsWith('#Label-theme'))
+        ?.type, 'context-provider-to-consumer');
+      assert.deepStrictEqual(result.contexts.map(context => [context.name, context.providers.length, context.consumers.length]), [
+        ['Theme', 1, 1]
+      ]);
+    });
+
+    test('finds consumers calling useContext without the React namespace', async() => {
+      const result = await analyze({
+        'App.tsx': THEME
+          .replace(`import * as React from 'react';`, `import * as React from 'react';
+import {useContext} from 'react';`)
+          .replace('React.useContext(', 'useContext(')
+      });
+
+      assert.ok(flowNames(result).includes('App.ThemeProvider -> Label.theme'));
+    });
+  });
+
+  suite('stores', () => {
+    const STORES = {
+      'todosSlice.ts': `import {createSlice} from '@reduxjs/toolkit';
+
+const todosSlice = createSlice({
+  name: 'todos',
+  initialState: {items: [], filter: 'all'},
+  reducers: {
+    addTodo(state, action) {
+      state.items.push(action.payload);
+    }
+  }
+});
+
+export const {addTodo} = todosSlice.actions;
+export default todosSlice.reducer;`,
+      'store.ts': `import {configureStore} from '@reduxjs/toolkit';
+import todos from './todosSlice';
+
+export const store = configureStore({reducer: {todos}});`,
+      'useCartStore.ts': `import {create} from 'zustand';
+
+export const useCartStore = create((set) => ({
+  count: 0,
+  add: () => set(state => ({count: state.count + 1}))
+}));`,
+      'atoms.ts': `import {atom} from 'jotai';
+
+export const themeAtom = atom('light');`,
+      'recoilAtoms.ts': `import {atom} from 'recoil';
+
+export const userAtom = atom({key: 'user', default: null});`,
+      'App.tsx': `import {useSelector, useDispatch, connect} from 'react-redux';
+import {useAtom} from 'jotai';
+import {useRecoilValue} from 'recoil';
+import {addTodo} from './todosSlice';
+import {useCartStore} from './useCartStore';
+import {themeAtom} from './atoms';
+import {userAtom} from './recoilAtoms';
+
+function TodoList({todos}) {
+  const items = useSelector(state => state.todos.items);
+  const dispatch = useDispatch();
+  return <ul onClick={() => dispatch(addTodo('x'))}>{items.length}{todos.length}</ul>;
+}
+
+function Cart() {
+  const count = useCartStore(state => state.count);
+  const add = useCartStore(state => state.add);
+  return <button onClick={add}>{count}</button>;
+}
+
+function Theme() {
+  const [theme, setTheme] = useAtom(themeAtom);
+  const user = useRecoilValue(userAtom);
+  return <button onClick={() => setTheme('dark')}>{theme} {user}</button>;
+}
+
+function Counter({filter, addTodo}) {
+  return <button onClick={() => addTodo(filter)}>{filter}</button>;
+}
+
+const ConnectedCounter = connect(state => ({filter: state.todos.filter}), {addTodo})(Counter);
+
+export function App() {
+  const items = useSelector(state => state.todos.items);
+  return <div><TodoList todos={items} /><Cart /><Theme /><ConnectedCounter /></div>;
+}`
+    };
+
+    test('finds the stores of each library', async() => {
+      const result = await analyze(STORES);
+
+      assert.deepStrictEqual(result.stores.map(store => [store.name, store.library]).sort(), [
+        ['atoms', 'jotai'],
+        ['recoilAtoms', 'recoil'],
+        ['store', 'redux'],
+        ['useCartStore', 'zustand']
+      ]);
+    });
+
+    test('links useSelector and useDispatch to a createSlice slice', async() => {
+      const result = await analyze(STORES);
+
+      assert.ok(flowNames(result).includes('store.todos -> TodoList.items'));
+      assert.ok(flowNames(result).includes('TodoList.dispatch -> store.todos/addTodo'));
+    });
+
+    test('links selectors and actions of a Zustand store', async() => {
+      const result = await analyze(STORES);
+
+      assert.ok(flowNames(result).includes('useCartStore.count -> Cart.count'));
+      assert.ok(flowNames(result).includes('Cart.add -> useCartStore.add'));
+    });
+
+    test('links Jotai and Recoil atoms to the components reading and setting them', async() => {
+      const result = await analyze(STORES);
+
+      assert.ok(flowNames(result).includes('atoms.themeAtom -> Theme.theme'));
+      assert.ok(flowNames(result).includes('Theme.setTheme -> atoms.themeAtom'));
+      assert.ok(flowNames(result).includes('recoilAtoms.userAtom -> Theme.user'));
+    });
+
+    test('links connect(mapState, mapDispatch) to the props of the wrapped component', async() => {
+      const result = await analyze(STORES);
+
+      assert.ok(flowNames(result).includes('store.todos -> Counter.filter'));
+      assert.ok(flowNames(result).includes('Counter.addTodo -> store.todos/addTodo'));
+    });
+
+    test('reports a store value also passed down as a prop', async() => {
+      const result = await analyze(STORES);
+
+      const conflicts = result
+        .conflicts
+        .filter(conflict => conflict.type === 'store-prop');
+      assert.deepStrictEqual(conflicts.map(conflict => conflict.description), ['TodoList selects todos from store and also receives it as prop "todos" from App']);
+    });
+  });
+
+  suite('server state', () => {
+    const QUERIES = `import {useState} from 'react';
+import {useQuery, useMutation, useQueryClient} from '@tanstack/react-query';
+import useSWR from 'swr';
+
+const fetcher = (url) => fetch(url).then(response => response.json());
+
+export function Todos() {
+  const {data: todos} = useQuery({queryKey: ['todos'], queryFn: () => fetch('/api/todos')});
+  const [items, setItems] = useState(todos);
+  return <ul>{items.length}</ul>;
+}
+
+export function AddTodo() {
+  const queryClient = useQueryClient();
+  const {mutate: addTodo} = useMutation({
+    mutationFn: (title) => fetch('/api/todos', {method: 'POST'}),
+    onSuccess: () => queryClient.invalidateQueries({queryKey: ['todos']})
+  });
+  return <button onClick={() => addTodo('x')}>Add</button>;
+}
+
+export function Profile() {
+  const {data: user} = useSWR('/api/user', fetcher);
+  return <span>{user.name}</span>;
+}`;
+
+    test('links queries to a cache node per library', async() => {
+      const result = await analyze({'App.tsx': QUERIES});
+
+      assert.deepStrictEqual(result.stores.map(store => [store.name, store.library]), [
+        ['Query cache', 'react-query'],
+        ['SWR cache', 'swr']
+      ]);
+      assert.ok(flowNames(result).includes('Query cache.todos -> Todos.todos'));
+      assert.ok(flowNames(result).includes('SWR cache./api/user -> Profile.user'));
+      assert.strictEqual(item(result, 'Profile', 'user')
+        ?.queryKey, '/api/user');
+    });
+
+    test('links mutations to the queries they invalidate', async() => {
+      const result = await analyze({'App.tsx': QUERIES});
+
+      assert.deepStrictEqual(item(result, 'AddTodo', 'addTodo')
+        ?.invalidates, ['todos']);
+      assert.ok(flowNames(result).includes('AddTodo.addTodo -> Query cache.todos'));
+    });
+
+    test('reports server data copied into local state', async() => {
+      const result = await analyze({'App.tsx': QUERIES});
+
+      assert.deepStrictEqual(result.conflicts.filter(conflict => conflict.type === 'server-state-copy').map(conflict => conflict.description), ['Todos copies server data todos (useQuery todos) into local state items as its initial value; it goes stale when the query refetches']);
+    });
+  });
+
+  suite('effects', () => {
+    const SEARCH = `import {useState, useEffect, useMemo, useCallback} from 'react';
+
+export function Search() {
+  const [filter, setFilter] = useState('');
+  const [page, setPage] = useState(0);
+  useEffect(() => {
+    setPage(0);
+  }, [filter]);
+  const visible = useMemo(() => filter.trim(), [filter]);
+  const reset = useCallback(() => setFilter(''), []);
+  return <button onClick={reset}>{visible} {page}</button>;
+}`;
+
+    test('links dependencies into effects and memos, and effects to the setters they call', async() => {
+      const result = await analyze({'Search.tsx': SEARCH});
+
+      assert.deepStrictEqual(flowNames(result), ['Search.filter -> Search.useEffect-0', 'Search.useEffect-0 -> Search.setPage', 'Search.filter -> Search.visible']);
+      assert.deepStrictEqual(item(result, 'Search', 'useEffect([filter])')
+        ?.dependencies, ['filter']);
+      assert.strictEqual(item(result, 'Search', 'reset')
+        ?.hookName, 'useCallback');
+    });
+
+    test('finds hooks called on a React namespace import', async() => {
+      const bare = await analyze({'Search.tsx': SEARCH});
+      const namespaced = await analyze({
+        'Search.tsx': SEARCH
+          .replace(/^import .*$/m, `import * as React from 'react';`)
+          .replace(/\b(use(State|Effect|Memo|Callback))\(/g, 'React.$1(')
+      });
+
+      assert.deepStrictEqual(flowNames(namespaced), flowNames(bare));
+      assert.deepStrictEqual(namespaced.components[0].items.map(componentItem => `${componentItem.name}: ${componentItem.type}`), bare.components[0].items.map(componentItem => `${componentItem.name}: ${componentItem.type}`));
+    });
+
+    suite('conflicts', () => {
+      const EFFECTS = `import {useState, useEffect} from 'react';
+
+export function Loop() {
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    setCount(count + 1);
+  }, [count]);
+  return <span>{count}</span>;
+}
+
+export function Guarded() {
+  const [count, setCount] = useState(0);
+  useEffect(() => {
+    if (count < 10) {
+      setCount(count + 1);
+    }
+  }, [count]);
+  return <span>{count}</span>;
+}
+
+export function Cycle() {
+  const [a, setA] = useState(0);
+  const [b, setB] = useState(0);
+  useEffect(() => {
+    setB(a + 1);
+  }, [a]);
+  useEffect(() => {
+    setA(b + 1);
+  }, [b]);
+  return <span>{a}{b}</span>;
+}
+
+export function Missing({userId}) {
+  const [user, setUser] = useState(null);
+  useEffect(() => {
+    fetch('/users/' + userId).then(setUser);
+  }, []);
+  return <span>{user}</span>;
+}
+
+export function NoDeps() {
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    setWidth(window.innerWidth);
+  });
+  return <span>{width}</span>;
+}`;
+
+      // Conflicts of one type as the ids of their items, without the file path
+      const conflictItems = (result : AnalysisResult, type : string) => result
+        .conflicts
+        .filter(conflict => conflict.type === type)
+        .map(conflict => conflict.items.map(itemId => itemId.split('#')[1]));
+
+      test('reports an effect unconditionally setting one of its dependencies', async() => {
+        const result = await analyze({'App.tsx': EFFECTS});
+
+        assert.deepStrictEqual(conflictItems(result, 'effect-loop'), [
+          ['Loop-useEffect-0', 'Loop-count']
+        ]);
+      });
+
+      test('accepts an effect setting its dependency behind a condition', async() => {
+        const result = await analyze({'App.tsx': EFFECTS});
+
+        assert.ok(!result.conflicts.some(conflict => conflict.items.some(itemId => itemId.includes('#Guarded-'))));
+      });
+
+      test('reports effects setting each other\'s dependencies', async() => {
+        const result = await analyze({'App.tsx': EFFECTS});
+
+        assert.deepStrictEqual(conflictItems(result, 'effect-cycle'), [
+          ['Cycle-useEffect-0', 'Cycle-useEffect-1']
+        ]);
+      });
+
+      test('reports a value an effect reads without listing it', async() => {
+        const result = await analyze({'App.tsx': EFFECTS});
+
+        assert.deepStrictEqual(conflictItems(result, 'missing-dependency'), [
+          ['Missing-useEffect-0', 'Missing-userId']
+        ]);
+      });
+
+      test('reports an effect without a dependency array that sets state', async() => {
+        const result = await analyze({'App.tsx': EFFECTS});
+
+        assert.deepStrictEqual(conflictItems(result, 'effect-without-deps').map(items => items[0]), ['NoDeps-useEffect-0']);
+      });
+    });
+  });
+
+  suite('routes', () => {
+    const SCREENS = `export function Layout() { return <main />; }
+export function Home() { return <h1>Home</h1>; }
+export function Users() { return <ul />; }
+export function User() { return <p />; }
+export function Settings() { return <form />; }`;
+    // Routes as path <- parent path, with the component's name
+    const routeNames = (result : AnalysisResult) => result
+      .routes
+      .map(route => `${route.path} <- ${route.parent
+        ? route
+          .parent
+          .split(':')
+          .pop()
+        : ''} ${route.component
+          ? route
+            .component
+            .split('#')[1]
+          : ''}`)
+      .sort();
+
+    test('nests JSX routes below their parent route or its index route', async() => {
+      const result = await analyze({
+        'screens.tsx': SCREENS,
+        'App.tsx': `import {Routes, Route} from 'react-router-dom';
+import {Layout, Home, Users, User, Settings} from './screens';
+
+export function App() {
+  return <Routes>
+    <Route path="/" element={<Layout />}>
+      <Route index element={<Home />} />
+      <Route path="users" element={<Users />}>
+        <Route path=":id" element={<User />} />
+      </Route>
+    </Route>
+    <Route path="/settings" element={<Settings />} />
+  </Routes>;
+}`
+      });
+
+      assert.deepStrictEqual(routeNames(result), ['/ <-  Home', '/settings <-  Settings', '/users <- / Users', '/users/:id <- /users User']);
+      assert.ok(result.routes.every(route => !route.parent || result.routes.some(other => other.id === route.parent)));
+      assert.deepStrictEqual(result.routes.find(route => route.path === '/users/:id')!.layouts.map(layout => layout.split('#')[1]), ['Layout', 'Users']);
+    });
+
+    test('nests route objects below their parent route or its index route', async() => {
+      const result = await analyze({
+        'screens.tsx': SCREENS,
+        'router.tsx': `import {createBrowserRouter} from 'react-router-dom';
+import {Layout, Home, Users, User, Settings} from './screens';
+
+export const router = createBrowserRouter([
+  {path: '/app', element: <Layout />, children: [
+    {index: true, Component: Home},
+    {path: 'users', element: <Users />, children: [{path: ':id', element: <User />}]},
+    {path: 'settings', element: <Settings />}
+  ]}
+]);`
+      });
+
+      assert.deepStrictEqual(routeNames(result), ['/app <-  Home', '/app/settings <- /app Settings', '/app/users <- /app Users', '/app/users/:id <- /app/users User']);
+      assert.ok(result.routes.every(route => !route.parent || result.routes.some(other => other.id === route.parent)));
+    });
+
+    test('turns Next.js pages and app directory files into routes with their layouts', async() => {
+      const result = await analyze({
+        'package.json': {
+          dependencies: {
+            next: '14.0.0'
+          }
+        },
+        'app/layout.tsx': 'export default function RootLayout({children}) { return <html>{children}</html>; }',
+        'app/page.tsx': 'export default function HomePage() { return <h1>Home</h1>; }',
+        'app/(marketing)/about/page.tsx': 'export default function About() { return <p />; }',
+        'app/dashboard/layout.tsx': 'export default function DashboardLayout({children}) { return <section>{children}</section>; }',
+        'app/dashboard/loading.tsx': 'export default function DashboardLoading() { return <p>Loading</p>; }',
+        'app/dashboard/page.tsx': 'export default function Dashboard() { return <p />; }',
+        'app/dashboard/[id]/page.tsx': 'export default function Item({params}) { return <p>{params.id}</p>; }',
+        'pages/_app.tsx': 'export default function MyApp({Component, pageProps}) { return <Component {...pageProps} />; }',
+        'pages/blog/index.tsx': 'export default function Blog() { return <ul />; }',
+        'pages/blog/[slug].tsx': 'export default function Post() { return <article />; }'
+      });
+      const name = (id?: string) => id && id.split('#')[1];
+
+      assert.deepStrictEqual(result.routes.map(route => [route.source, route.path, name(route.component), route.layouts.map(name), name(route.loading)]), [
+        ['next-app', '/', 'HomePage', ['RootLayout'], undefined],
+        ['next-app', '/about', 'About', ['RootLayout'], undefined],
+        ['next-pages', '/blog', 'Blog', ['MyApp'], undefined],
+        ['next-pages', '/blog/[slug]', 'Post', ['MyApp'], undefined],
+        ['next-app', '/dashboard', 'Dashboard', ['RootLayout', 'DashboardLayout'], 'DashboardLoading'],
+        ['next-app', '/dashboard/[id]', 'Item', ['RootLayout', 'DashboardLayout'], 'DashboardLoading']
+      ]);
+    });
+  });
+
+  suite('runs', () => {
+    // Projects of a few files each, so parsing awaits worker threads
+    const project = (name : string) => Object.fromEntries(Array.from({
+      length: 6
+    }, (_, index) => [
+      `${name}${index}.tsx`,
+      `import {createContext, useContext, useState} from 'react';
+${index > 0
+        ? `import {${name}${index - 1}} from './${name}${index - 1}';`
+        : ''}
+
+export const ${name}Context${index} = createContext(0);
+
+export function ${name}${index}({value}: {value: number}) {
+  const [count, setCount] = useState(value);
+  const shared = useContext(${name}Context${index});
+  return <${name}Context${index}.Provider value={count}>${index > 0
+        ? `<${name}${index - 1} value={count + shared} />`
+        : '{count}'}</${name}Context${index}.Provider>;
+}`
+    ]));
+    // Results without their debug information, which holds timings
+    const comparable = (result : AnalysisResult) => JSON.stringify({
+      ...result,
+      debug: undefined
+    });
+
+    test('runs started while another is in progress do not mix their projects', async() => {
+      const first = createFixture(project('First'));
+      const second = createFixture(project('Second'));
+      try {
+        const alone = [
+          await new ReactAnalyzer().analyzeReactProject(first, {workers: 1}),
+          await new ReactAnalyzer().analyzeReactProject(second, {workers: 1})
+        ];
+        const analyzer = new ReactAnalyzer();
+        const together = await Promise.all([
+          analyzer.analyzeReactProject(first, {workers: 1}),
+          analyzer.analyzeReactProject(second, {workers: 1})
+        ]);
+
+        assert.strictEqual(comparable(together[0]), comparable(alone[0]));
+        assert.strictEqual(comparable(together[1]), comparable(alone[1]));
+        assert.notStrictEqual(together[0].debug, together[1].debug);
+      } finally {
+        removeFixture(first);
+        removeFixture(second);
+      }
+    });
+  });
+});
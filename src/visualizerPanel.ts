@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import {AnalysisResult} from './reactAnalyzer';
+import {AnalysisResult, SourceRange} from './reactAnalyzer';
+import {DiagramFilter} from './diagramExport';
+
+// The diagram as the webview draws it: standalone SVG markup, and what it shows
+export interface DiagramSnapshot extends DiagramFilter {
+  svg : string;
+}
 
 export class VisualizerPanel {
   public static currentPanel : VisualizerPanel | undefined;
@@ -8,6 +14,8 @@ export class VisualizerPanel {
   private _disposables : vscode.Disposable[] = [];
   private _webviewReady : boolean = false;
   private _pendingMessage : any = null;
+  private _result : AnalysisResult | undefined;
+  private _snapshotRequest : ((snapshot : DiagramSnapshot) => void) | undefined;
 
   constructor(private readonly _extensionUri : vscode.Uri) {
     this._panel = vscode
@@ -37,7 +45,7 @@ export class VisualizerPanel {
         console.log('Message received from webview:', message);
         switch (message.command) {
           case 'openFile':
-            this._openFile(message.filePath);
+            this._openFile(message.filePath, message.range);
             break;
           case 'showError':
             vscode
@@ -49,6 +57,12 @@ export class VisualizerPanel {
               .window
               .showInformationMessage(message.text);
             break;
+          case 'diagramExported':
+            this
+              ._snapshotRequest
+              ?.({svg: message.svg, components: message.components, flows: message.flows});
+            this._snapshotRequest = undefined;
+            break;
           case 'webviewReady':
             console.log('Webview signaled it is ready');
             this._webviewReady = true;
@@ -77,7 +91,31 @@ export class VisualizerPanel {
       .reveal();
   }
 
+  // The result last sent to the webview
+  public get result() : AnalysisResult | undefined {
+    return this._result;
+  }
+
+  // Asks the webview for what it currently draws, with its filters and layout
+  public requestSnapshot() : Promise < DiagramSnapshot > {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this._snapshotRequest = undefined;
+        reject(new Error('The diagram did not respond'));
+      }, 10000);
+      this._snapshotRequest = snapshot => {
+        clearTimeout(timeout);
+        resolve(snapshot);
+      };
+      this
+        ._panel
+        .webview
+        .postMessage({command: 'exportDiagram'});
+    });
+  }
+
   public updateVisualization(data : AnalysisResult) {
+    this._result = data;
     // Serialize data to ensure it's JSON-safe (no circular references, functions,
     // etc.)
     let serializedData;
@@ -146,13 +184,17 @@ export class VisualizerPanel {
     }
   }
 
-  private _openFile(filePath : string) {
+  private _openFile(filePath : string, range?: SourceRange) {
     const uri = vscode
       .Uri
       .file(filePath);
     vscode
       .window
-      .showTextDocument(uri);
+      .showTextDocument(uri, {
+        selection: range
+          ? new vscode.Range(range.startLine - 1, range.startColumn, range.endLine - 1, range.endColumn)
+          : undefined
+      });
   }
 
   private _getHtmlForWebview() : string {
@@ -220,6 +262,26 @@ export class VisualizerPanel {
             color: #9ca3af;
         }
 
+        .layout-toggle {
+            position: absolute;
+            top: 16px;
+            right: 16px;
+        }
+
+        .layout-toggle button {
+            background: #1f2937;
+            color: #d1d5db;
+            border: 1px solid #4b5563;
+            padding: 4px 10px;
+            font-size: 12px;
+            cursor: pointer;
+        }
+
+        .layout-toggle button.active {
+            background: #3b82f6;
+            color: #f9fafb;
+        }
+
         .sidebar {
             width: 300px;
             background: #374151;
@@ -322,6 +384,11 @@ export class VisualizerPanel {
             <div class="header">
                 <h2>React Component Visualizer</h2>
                 <p>Interactive diagram showing component relationships, state flow, and context</p>
+                <div class="layout-toggle">
+                    <button id="layout-grid" class="active" onclick="setLayoutMode('grid')">Grid</button>
+                    <button id="layout-hierarchy" onclick="setLayoutMode('hierarchy')">Hierarchy</button>
+                    <button id="layout-routes" onclick="setLayoutMode('routes')">Routes</button>
+                </div>
             </div>
             <div id="loading" class="loading">
                 Analyzing React components...
@@ -346,6 +413,31 @@ export class VisualizerPanel {
                 <div id="conflicts-list"></div>
             </div>
 
+            <div style="margin-top: 20px;">
+                <h3>Orphans</h3>
+                <div id="orphans-list"></div>
+            </div>
+
+            <div style="margin-top: 20px;">
+                <h3>Contexts</h3>
+                <div id="contexts-list"></div>
+            </div>
+
+            <div style="margin-top: 20px;">
+                <h3>Stores</h3>
+                <div id="stores-list"></div>
+            </div>
+
+            <div style="margin-top: 20px;">
+                <h3>Routes</h3>
+                <div id="routes-list"></div>
+            </div>
+
+            <div style="margin-top: 20px;">
+                <h3>Component Props</h3>
+                <div id="props-list"></div>
+            </div>
+
             <div class="legend">
                 <h3>Legend</h3>
                 <div class="legend-item">
@@ -360,6 +452,10 @@ export class VisualizerPanel {
                     <div class="legend-color" style="background: #f59e0b;"></div>
                     <span>Props</span>
                 </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #fb923c;"></div>
+                    <span>Callback Props</span>
+                </div>
                 <div class="legend-item">
                     <div class="legend-color" style="background: #3b82f6;"></div>
                     <span>Functions</span>
@@ -368,6 +464,38 @@ export class VisualizerPanel {
                     <div class="legend-color" style="background: #8b5cf6;"></div>
                     <span>Context</span>
                 </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #06b6d4;"></div>
+                    <span>Custom Hooks</span>
+                </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #f43f5e;"></div>
+                    <span>Effects</span>
+                </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #84cc16;"></div>
+                    <span>Memoized Values</span>
+                </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #9ca3af;"></div>
+                    <span>Renders (hierarchy and routes layouts; dashed when conditional)</span>
+                </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #facc15;"></div>
+                    <span>Store Slices & Selections</span>
+                </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #d97706;"></div>
+                    <span>Store Actions & Dispatches</span>
+                </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #2dd4bf;"></div>
+                    <span>Server State (queries; dashed when invalidated)</span>
+                </div>
+                <div class="legend-item">
+                    <div class="legend-color" style="background: #e879f9;"></div>
+                    <span>Server → Client Boundary ('use client' components)</span>
+                </div>
             </div>
 
             <div style="margin-top: 20px; border-top: 1px solid #4b5563; padding-top: 16px;">
@@ -377,6 +505,7 @@ export class VisualizerPanel {
                     <li>Hover connections to highlight</li>
                     <li>Select flows to trace data paths</li>
                     <li>Red borders indicate conflicts</li>
+                    <li>Dashed grey outlines mark orphans</li>
                 </ul>
             </div>
         </div>
@@ -438,6 +567,9 @@ export class VisualizerPanel {
         
         let currentData = null;
         let selectedFlow = null;
+        let selectedConflict = null;
+        let layoutMode = 'grid';
+        let expandedRoutes = {};
         let svg = null;
 
         // Initialize visualization
@@ -497,6 +629,7 @@ export class VisualizerPanel {
                     '<div style="color: #10b981;">✓ Files: ' + data.debug.filesAnalyzed.length + '</div>' +
                     '<div style="color: #10b981;">✓ Components: ' + data.debug.componentsFound.length + '</div>' +
                     '<div style="color: #ef4444;">✗ Errors: ' + data.debug.parseErrors.length + '</div>' +
+                    '<div style="color: #d1d5db;">⏱ ' + Object.entries(data.debug.timings || {}).map(([phase, ms]) => phase + ' ' + ms + 'ms').join(', ') + '</div>' +
                     '<div style="margin-top: 8px; max-height: 100px; overflow-y: auto;">' + logEntries + '</div>';
                 
                 // Log to browser console for detailed debugging
@@ -523,6 +656,10 @@ export class VisualizerPanel {
                 return;
             }
 
+            applyLayout(data);
+            renderRenderEdges(data.renderEdges || []);
+            renderRoutes(data.routes || []);
+
             console.log('Rendering components:', data.components.length);
             renderComponents(data.components);
             
@@ -535,12 +672,311 @@ export class VisualizerPanel {
             console.log('Visualization complete!');
         }
 
+        // Grid positions come from the analyzer, the hierarchy is laid out here
+        function applyLayout(data) {
+            data.components.forEach(function(component) {
+                if (component.gridX === undefined) {
+                    component.gridX = component.x;
+                    component.gridY = component.y;
+                }
+                component.x = component.gridX;
+                component.y = component.gridY;
+                component.hidden = false;
+            });
+            if (layoutMode === 'hierarchy') {
+                layoutHierarchy(data.components, data.renderEdges || []);
+            } else if (layoutMode === 'routes') {
+                layoutRoutes(data);
+            }
+        }
+
+        // One column per render depth, starting from the components nothing renders;
+        // hooks, stores and components only reachable through a cycle go in a last column
+        function layoutHierarchy(components, renderEdges) {
+            const byId = {};
+            const children = {};
+            const rendered = {};
+            components.forEach(function(component) {
+                byId[component.id] = component;
+                children[component.id] = [];
+            });
+            renderEdges.forEach(function(edge) {
+                if (byId[edge.parent] && byId[edge.child] && edge.parent !== edge.child) {
+                    children[edge.parent].push(edge.child);
+                    rendered[edge.child] = true;
+                }
+            });
+
+            const depths = {};
+            const queue = components.filter(function(component) {
+                return component.kind === 'component' && !rendered[component.id];
+            }).map(function(component) { return component.id; });
+            queue.forEach(function(id) { depths[id] = 0; });
+            for (let i = 0; i < queue.length; i++) {
+                children[queue[i]].forEach(function(child) {
+                    if (depths[child] === undefined) {
+                        depths[child] = depths[queue[i]] + 1;
+                        queue.push(child);
+                    }
+                });
+            }
+
+            const columns = [];
+            queue.forEach(function(id) {
+                (columns[depths[id]] = columns[depths[id]] || []).push(byId[id]);
+            });
+            const unreached = components.filter(function(component) { return depths[component.id] === undefined; });
+            if (unreached.length > 0) {
+                columns.push(unreached);
+            }
+
+            let x = 50;
+            columns.forEach(function(column) {
+                let y = 50;
+                column.forEach(function(component) {
+                    component.x = x;
+                    component.y = y;
+                    y += component.height + 30;
+                });
+                x += Math.max.apply(null, column.map(function(component) { return component.width; })) + 80;
+            });
+        }
+
+        // Route layer: a column of routes, each expanded one followed by a column per
+        // layout, then its component and loading state, then what they render by
+        // depth. Components outside the expanded routes are hidden
+        function layoutRoutes(data) {
+            const byId = {};
+            const children = {};
+            data.components.forEach(function(component) {
+                byId[component.id] = component;
+                children[component.id] = [];
+                component.hidden = true;
+            });
+            (data.renderEdges || []).forEach(function(edge) {
+                if (byId[edge.parent] && byId[edge.child] && edge.parent !== edge.child) {
+                    children[edge.parent].push(edge.child);
+                }
+            });
+
+            let y = 50;
+            (data.routes || []).forEach(function(route) {
+                route.x = 50;
+                route.y = y;
+                route.width = 200;
+                route.height = 40;
+                let bottom = y + route.height;
+
+                if (expandedRoutes[route.id]) {
+                    const queue = route.layouts.map(function(id, index) { return { id: id, depth: index }; });
+                    [route.component, route.loading].forEach(function(id) {
+                        if (id) queue.push({ id: id, depth: route.layouts.length });
+                    });
+                    // Components already shown for a route above stay there
+                    const columns = [];
+                    for (let i = 0; i < queue.length; i++) {
+                        const component = byId[queue[i].id];
+                        if (!component || !component.hidden) continue;
+                        component.hidden = false;
+                        (columns[queue[i].depth] = columns[queue[i].depth] || []).push(component);
+                        children[component.id].forEach(function(child) {
+                            queue.push({ id: child, depth: queue[i].depth + 1 });
+                        });
+                    }
+
+                    let x = route.x + route.width + 80;
+                    columns.forEach(function(column) {
+                        let columnY = y;
+                        column.forEach(function(component) {
+                            component.x = x;
+                            component.y = columnY;
+                            columnY += component.height + 30;
+                        });
+                        bottom = Math.max(bottom, columnY - 30);
+                        x += Math.max.apply(null, column.map(function(component) { return component.width; })) + 80;
+                    });
+                }
+                y = bottom + 30;
+            });
+        }
+
+        // Route nodes of the routes layout, linked to the first component shown for
+        // them; clicking one expands or collapses it
+        function renderRoutes(routes) {
+            svg.selectAll('.routes').remove();
+            if (layoutMode !== 'routes') return;
+
+            const routeGroup = svg.append('g').attr('class', 'routes');
+            if (routes.length === 0) {
+                routeGroup.append('text')
+                    .attr('x', 50)
+                    .attr('y', 50)
+                    .attr('fill', '#9ca3af')
+                    .attr('font-size', '12px')
+                    .text('No routes detected');
+                return;
+            }
+
+            const byId = {};
+            currentData.components.forEach(function(component) { byId[component.id] = component; });
+            const sourceLabels = {
+                'react-router': 'React Router',
+                'next-pages': 'pages/',
+                'next-app': 'app/'
+            };
+
+            routes.forEach(function(route) {
+                const expanded = !!expandedRoutes[route.id];
+                const component = byId[route.component];
+                const target = route.layouts.concat(route.component ? [route.component] : [])
+                    .map(function(id) { return byId[id]; })
+                    .find(function(candidate) { return candidate && !candidate.hidden; });
+                if (expanded && target) {
+                    const fromX = route.x + route.width;
+                    const fromY = route.y + 20;
+                    const midX = (fromX + target.x) / 2;
+                    routeGroup.append('path')
+                        .attr('d', 'M ' + fromX + ' ' + fromY + ' C ' + midX + ' ' + fromY + ' ' + midX + ' ' + (target.y + 20) + ' ' + target.x + ' ' + (target.y + 20))
+                        .attr('fill', 'none')
+                        .attr('stroke', '#fbbf24')
+                        .attr('stroke-width', 1.5)
+                        .attr('opacity', 0.7);
+                }
+
+                const group = routeGroup.append('g')
+                    .attr('transform', 'translate(' + route.x + ',' + route.y + ')')
+                    .style('cursor', 'pointer')
+                    .on('click', function() { toggleRoute(route.id); });
+                group.append('rect')
+                    .attr('width', route.width)
+                    .attr('height', route.height)
+                    .attr('rx', 6)
+                    .attr('fill', expanded ? '#422006' : '#1f2937')
+                    .attr('stroke', '#fbbf24')
+                    .attr('stroke-width', 1.5);
+                group.append('text')
+                    .attr('x', 10)
+                    .attr('y', 17)
+                    .attr('fill', '#fde68a')
+                    .attr('font-size', '12px')
+                    .attr('font-family', 'monospace')
+                    .text((expanded ? '▾ ' : '▸ ') + truncate(route.path, 24));
+                group.append('text')
+                    .attr('x', 10)
+                    .attr('y', 32)
+                    .attr('fill', '#9ca3af')
+                    .attr('font-size', '9px')
+                    .text(truncate((component ? component.label || component.name : 'unresolved component') + ' · ' + sourceLabels[route.source], 36));
+                group.append('title').text(route.path + '\\n' + route.filePath +
+                    (route.layouts.length > 0 ? '\\nlayouts: ' + route.layouts.map(function(id) {
+                        return byId[id] ? byId[id].label || byId[id].name : id;
+                    }).join(' > ') : ''));
+            });
+        }
+
+        function toggleRoute(routeId) {
+            expandedRoutes[routeId] = !expandedRoutes[routeId];
+            setLayoutMode('routes');
+            if (currentData) {
+                updateSidebar(currentData);
+            }
+        }
+
+        function setLayoutMode(mode) {
+            layoutMode = mode;
+            document.getElementById('layout-grid').className = mode === 'grid' ? 'active' : '';
+            document.getElementById('layout-hierarchy').className = mode === 'hierarchy' ? 'active' : '';
+            document.getElementById('layout-routes').className = mode === 'routes' ? 'active' : '';
+            if (currentData && currentData.components && currentData.components.length > 0) {
+                applyLayout(currentData);
+                renderRenderEdges(currentData.renderEdges || []);
+                renderRoutes(currentData.routes || []);
+                renderComponents(currentData.components);
+                renderFlows(currentData.flows);
+            }
+        }
+
+        // Tree links between the title rows of parent and child, under the components
+        // and data flows; dashed when conditional, labelled with list and count
+        function renderRenderEdges(renderEdges) {
+            svg.selectAll('.render-edges').remove();
+            if (layoutMode === 'grid') return;
+
+            const edgeGroup = svg.append('g').attr('class', 'render-edges');
+            const byId = {};
+            currentData.components.forEach(function(component) { byId[component.id] = component; });
+
+            renderEdges.forEach(function(edge) {
+                const parent = byId[edge.parent];
+                const child = byId[edge.child];
+                if (!parent || !child || parent === child || parent.hidden || child.hidden) return;
+
+                const fromX = parent.x + parent.width;
+                const fromY = parent.y + 20;
+                const toX = child.x;
+                const toY = child.y + 20;
+                const midX = (fromX + toX) / 2;
+
+                const link = edgeGroup.append('path')
+                    .attr('d', 'M ' + fromX + ' ' + fromY + ' C ' + midX + ' ' + fromY + ' ' + midX + ' ' + toY + ' ' + toX + ' ' + toY)
+                    .attr('fill', 'none')
+                    .attr('stroke', edge.boundary ? '#e879f9' : '#9ca3af')
+                    .attr('stroke-width', edge.boundary ? 2.5 : 1.5)
+                    .attr('stroke-dasharray', edge.conditional ? '6,4' : 'none')
+                    .attr('opacity', edge.boundary ? 0.8 : 0.5);
+                link.append('title').text((parent.label || parent.name) + ' renders ' + (child.label || child.name) +
+                    (edge.boundary ? ', crossing from server to client' : '') +
+                    (edge.count > 1 ? ' ' + edge.count + ' times' : '') +
+                    (edge.conditional ? ', conditionally' : '') +
+                    (edge.inList ? ', in a list' : '') +
+                    (edge.conditions || []).map(function(condition) { return '\\nwhen ' + condition.expression; }).join('') +
+                    (edge.lists || []).map(function(list) {
+                        return '\\nfor each of ' + list.source + (list.key !== undefined ? ', key=' + list.key : ', no key');
+                    }).join(''));
+
+                // The condition controlling the child's visibility, along the link
+                if (edge.conditional && edge.conditions && edge.conditions.length > 0) {
+                    edgeGroup.append('text')
+                        .attr('x', midX)
+                        .attr('y', (fromY + toY) / 2 - 4)
+                        .attr('text-anchor', 'middle')
+                        .attr('fill', '#fbbf24')
+                        .attr('font-size', '9px')
+                        .attr('font-family', 'monospace')
+                        .text(truncate(edge.conditions.map(function(condition) { return condition.expression; }).join(' | '), 28));
+                }
+
+                const badge = (edge.inList ? '[ ]' : '') + (edge.count > 1 ? ' ×' + edge.count : '');
+                if (badge) {
+                    edgeGroup.append('text')
+                        .attr('x', toX - 6)
+                        .attr('y', toY - 4)
+                        .attr('text-anchor', 'end')
+                        .attr('fill', '#9ca3af')
+                        .attr('font-size', '9px')
+                        .text(badge.trim());
+                }
+            });
+        }
+
         function renderComponents(components) {
             svg.selectAll('.component').remove();
 
             const componentGroup = svg.append('g').attr('class', 'components');
 
+            // Orphans by item id, and components never rendered anywhere
+            const orphanItems = {};
+            const unrendered = {};
+            (currentData && currentData.orphans || []).forEach(function(orphan) {
+                if (orphan.itemId) {
+                    orphanItems[orphan.itemId] = orphan;
+                } else if (orphan.type === 'unrendered-component') {
+                    unrendered[orphan.componentId] = orphan;
+                }
+            });
+
             components.forEach(function(component) {
+                if (component.hidden) return;
                 const group = componentGroup.append('g')
                     .attr('class', 'component')
                     .attr('transform', 'translate(' + component.x + ',' + component.y + ')')
@@ -552,23 +988,31 @@ export class VisualizerPanel {
                         });
                     });
 
-                // Component container
+                // Component container (custom hooks get a dashed cyan border, stores an amber one)
+                const isHook = component.kind === 'hook';
+                const borderColor = isHook ? '#06b6d4' : (component.kind === 'store' ? '#facc15' : '#6b7280');
                 group.append('rect')
                     .attr('width', component.width)
                     .attr('height', component.height)
                     .attr('rx', 8)
                     .attr('ry', 8)
                     .attr('fill', 'none')
-                    .attr('stroke', '#6b7280')
+                    .attr('stroke', borderColor)
                     .attr('stroke-width', 2)
+                    .attr('stroke-dasharray', isHook ? '6,3' : (unrendered[component.id] ? '2,4' : 'none'))
                     .on('mouseenter', function() {
                         d3.select(this).attr('stroke', '#3b82f6').attr('stroke-width', 3);
                     })
                     .on('mouseleave', function() {
-                        d3.select(this).attr('stroke', '#6b7280').attr('stroke-width', 2);
+                        d3.select(this).attr('stroke', borderColor).attr('stroke-width', 2);
                     });
 
-                // Component title
+                if (unrendered[component.id]) {
+                    group.attr('opacity', 0.6);
+                    group.append('title').text(unrendered[component.id].description);
+                }
+
+                // Component title (disambiguated by folder when names collide)
                 group.append('text')
                     .attr('x', component.width / 2)
                     .attr('y', 20)
@@ -576,16 +1020,54 @@ export class VisualizerPanel {
                     .attr('fill', '#f9fafb')
                     .attr('font-size', '14px')
                     .attr('font-weight', 'bold')
-                    .text(component.name);
+                    .text(component.label || component.name);
+
+                // Wrapper badges: memo, forwardRef, lazy and HOCs, the library of a store, and
+                // server or client in projects using 'use client'
+                const badges = (component.wrappers || [])
+                    .concat(component.library ? [component.library] : [])
+                    .concat(component.environment ? [component.environment] : []);
+                if (badges.length > 0) {
+                    const wrapperColors = {
+                        'memo': '#a78bfa',
+                        'forwardRef': '#f472b6',
+                        'lazy': '#fbbf24',
+                        'server': '#38bdf8',
+                        'client': '#e879f9'
+                    };
+                    let badgeX = component.width - 8;
+                    badges.slice().reverse().forEach(function(wrapper) {
+                        const badgeWidth = wrapper.length * 5.5 + 8;
+                        badgeX -= badgeWidth;
+                        const color = wrapperColors[wrapper] || (wrapper === component.library ? '#facc15' : '#9ca3af');
+                        group.append('rect')
+                            .attr('x', badgeX)
+                            .attr('y', -7)
+                            .attr('width', badgeWidth)
+                            .attr('height', 14)
+                            .attr('rx', 7)
+                            .attr('fill', '#1f2937')
+                            .attr('stroke', color)
+                            .attr('stroke-width', 1);
+                        group.append('text')
+                            .attr('x', badgeX + badgeWidth / 2)
+                            .attr('y', 3)
+                            .attr('text-anchor', 'middle')
+                            .attr('fill', color)
+                            .attr('font-size', '9px')
+                            .text(wrapper);
+                        badgeX -= 4;
+                    });
+                }
 
                 // Component items
                 component.items.forEach(function(item, index) {
                     const itemY = 40 + (index * 18);
                     
-                    const isHighlighted = selectedFlow && item.flowId === selectedFlow;
+                    const isHighlighted = (selectedFlow && item.flowId === selectedFlow) || isConflictItem(item.id);
                     
                     // Item background
-                    group.append('rect')
+                    const itemBackground = group.append('rect')
                         .attr('x', 8)
                         .attr('y', itemY - 12)
                         .attr('width', component.width - 16)
@@ -596,8 +1078,22 @@ export class VisualizerPanel {
                         .attr('stroke', isHighlighted ? item.color : 'none')
                         .attr('stroke-width', isHighlighted ? 1 : 0);
 
+                    if (item.providedValue) {
+                        itemBackground.append('title').text(item.name + ' value=' + item.providedValue);
+                    }
+
+                    const orphan = orphanItems[item.id];
+                    if (orphan) {
+                        itemBackground
+                            .attr('opacity', 0.1)
+                            .attr('stroke', '#9ca3af')
+                            .attr('stroke-width', 1)
+                            .attr('stroke-dasharray', '3,2');
+                        itemBackground.append('title').text(orphan.description);
+                    }
+
                     // Connection point
-                    const isInput = item.type === 'prop' || item.type === 'prop-function' || item.type === 'context-consumer';
+                    const isInput = item.type === 'prop' || item.type === 'prop-function' || item.type === 'context-consumer' || item.type === 'hook-value' || item.type === 'store-value' || item.type === 'store-action' || item.type === 'server-state';
                     const connectionX = isInput ? 0 : component.width;
                     const isContext = item.type.includes('context');
                     
@@ -620,15 +1116,28 @@ export class VisualizerPanel {
                             .attr('stroke-width', 1);
                     }
 
-                    // Item text
-                    group.append('text')
+                    // Item text (props show optionality and declared type)
+                    const itemText = group.append('text')
                         .attr('x', 12)
                         .attr('y', itemY)
                         .attr('fill', item.color)
                         .attr('font-size', '11px')
                         .attr('font-family', 'monospace')
                         .attr('font-weight', isHighlighted ? 'bold' : 'normal')
-                        .text(item.name);
+                        .attr('font-style', item.optional ? 'italic' : 'normal')
+                        .attr('text-decoration', orphan ? 'line-through' : 'none')
+                        .text(item.name + (item.optional ? '?' : ''));
+
+                    if (item.valueType) {
+                        itemText.append('tspan')
+                            .attr('fill', '#9ca3af')
+                            .text(': ' + truncate(item.valueType, Math.floor((component.width - 80) / 7) - item.name.length));
+                    }
+
+                    if (item.defaultValue !== undefined) {
+                        itemText.append('title')
+                            .text(item.name + ' defaults to ' + item.defaultValue);
+                    }
 
                     // Type indicator
                     group.append('text')
@@ -643,6 +1152,11 @@ export class VisualizerPanel {
             });
         }
 
+        function truncate(text, maxLength) {
+            if (maxLength < 4) return '…';
+            return text.length > maxLength ? text.slice(0, maxLength - 1) + '…' : text;
+        }
+
         function renderFlows(flows) {
             if (!currentData) return;
 
@@ -681,7 +1195,7 @@ export class VisualizerPanel {
                     return c.items.some(function(item) { return item.id === flow.toItem; });
                 });
 
-                if (fromComponent && toComponent) {
+                if (fromComponent && toComponent && !fromComponent.hidden && !toComponent.hidden) {
                     const fromItem = fromComponent.items.find(function(item) { return item.id === flow.fromItem; });
                     const toItem = toComponent.items.find(function(item) { return item.id === flow.toItem; });
                     
@@ -694,24 +1208,29 @@ export class VisualizerPanel {
                             y: fromComponent.y + 40 + (fromItemIndex * 18)
                         };
                         
+                        // Flows within one component (effects and memos) loop back on its right edge
+                        const isInternal = fromComponent === toComponent;
                         const toPos = {
-                            x: toComponent.x,
+                            x: isInternal ? toComponent.x + toComponent.width : toComponent.x,
                             y: toComponent.y + 40 + (toItemIndex * 18)
                         };
 
-                        const color = flowColors[flow.id] || '#6b7280';
+                        const isEffectFlow = flow.type === 'dependency-to-effect' || flow.type === 'effect-to-setter';
+                        const isStoreFlow = flow.type === 'store-to-component' || flow.type === 'component-to-store';
+                        const isServerFlow = flow.type === 'query-to-component' || flow.type === 'mutation-invalidates';
+                        const color = flowColors[flow.id] || (flow.type === 'hook-to-component' ? '#06b6d4' : (isEffectFlow ? '#f43f5e' : (isStoreFlow ? '#facc15' : (isServerFlow ? '#2dd4bf' : '#6b7280'))));
                         const isContextFlow = flow.type === 'context-provider-to-consumer';
                         
                         flowGroup.append('path')
                             .attr('d', 'M ' + fromPos.x + ' ' + fromPos.y + 
                                      ' C ' + (fromPos.x + 40) + ' ' + fromPos.y + 
-                                     ' ' + (toPos.x - 40) + ' ' + toPos.y + 
+                                     ' ' + (isInternal ? toPos.x + 40 : toPos.x - 40) + ' ' + toPos.y + 
                                      ' ' + toPos.x + ' ' + toPos.y)
                             .attr('fill', 'none')
                             .attr('stroke', color)
                             .attr('stroke-width', 2)
-                            .attr('stroke-dasharray', isContextFlow ? '8,4' : 'none')
-                            .attr('opacity', selectedFlow && selectedFlow !== flow.id ? 0.2 : 0.7)
+                            .attr('stroke-dasharray', isContextFlow ? '8,4' : (flow.type === 'dependency-to-effect' || flow.type === 'mutation-invalidates' ? '2,3' : 'none'))
+                            .attr('opacity', isFlowDimmed(flow) ? 0.2 : 0.7)
                             .attr('marker-end', 'url(#arrowhead)')
                             .style('cursor', 'pointer')
                             .on('click', function() { selectFlow(flow.id); });
@@ -723,6 +1242,11 @@ export class VisualizerPanel {
         function updateSidebar(data) {
             const flowsList = document.getElementById('flows-list');
             const conflictsList = document.getElementById('conflicts-list');
+            const propsList = document.getElementById('props-list');
+            const contextsList = document.getElementById('contexts-list');
+            const storesList = document.getElementById('stores-list');
+            const routesList = document.getElementById('routes-list');
+            const orphansList = document.getElementById('orphans-list');
 
             // Update flows
             const flowDescriptions = {
@@ -739,7 +1263,7 @@ export class VisualizerPanel {
             const uniqueFlows = [...new Set(data.flows.map(f => f.id))];
             
             flowsList.innerHTML = uniqueFlows.map(function(flowId) {
-                return '<div class="flow-item ' + (selectedFlow === flowId ? 'selected' : '') + '" onclick="selectFlow(&quot;' + flowId + '&quot;)">' +
+                return '<div class="flow-item ' + (selectedFlow === flowId ? 'selected' : '') + '" data-id="' + escapeHtml(flowId) + '" onclick="selectFlow(this.dataset.id)">' +
                     '<div class="flow-header">' +
                         '<div class="flow-color" style="background: ' + getFlowColor(flowId) + ';"></div>' +
                         '<div class="flow-name">' + flowId + '</div>' +
@@ -749,28 +1273,261 @@ export class VisualizerPanel {
             }).join('');
 
             // Update conflicts
+            const conflictLabels = {
+                'prop-drilling': 'Prop drilling',
+                'effect-loop': 'Effect loop',
+                'effect-cycle': 'Effect cycle',
+                'missing-dependency': 'Missing dependencies',
+                'effect-without-deps': 'Effect without dependencies',
+                'derived-state': 'Derived state',
+                'duplicated-state': 'Duplicated state',
+                'mirrored-state': 'Mirrored state',
+                'missing-key': 'Missing key',
+                'index-key': 'Index used as key',
+                'store-prop': 'Store data passed as prop',
+                'server-state-copy': 'Server data copied into state',
+                'unserializable-prop': 'Unserializable prop to client component',
+                'server-hook': 'Hook in server component'
+            };
+
             if (data.conflicts && data.conflicts.length > 0) {
                 conflictsList.innerHTML = data.conflicts.map(function(conflict) {
-                    return '<div style="background: rgba(239, 68, 68, 0.2); border: 1px solid #ef4444; border-radius: 4px; padding: 8px; margin: 8px 0;">' +
-                        '<div style="color: #fca5a5; font-size: 12px; font-weight: 500;">' + conflict.id + '</div>' +
-                        '<div style="color: #fecaca; font-size: 10px; margin-top: 4px;">' + conflict.description + '</div>' +
-                        '<div style="color: #fca5a5; font-size: 10px; margin-top: 4px;">' + conflict.items.length + ' items involved</div>' +
+                    const isSelected = selectedConflict === conflict.id;
+                    const conflictId = escapeHtml(conflict.id);
+                    return '<div style="background: rgba(239, 68, 68, ' + (isSelected ? 0.4 : 0.2) + '); border: 1px solid #ef4444; border-radius: 4px; padding: 8px; margin: 8px 0; cursor: pointer;" data-id="' + conflictId + '" onclick="selectConflict(this.dataset.id)">' +
+                        '<div style="color: #fca5a5; font-size: 12px; font-weight: 500;">' + (conflictLabels[conflict.type] || conflictId) + '</div>' +
+                        '<div style="color: #fecaca; font-size: 10px; margin-top: 4px;">' + escapeHtml(conflict.description) + '</div>' +
+                        '<div style="color: #fca5a5; font-size: 10px; margin-top: 4px;">' + conflict.items.length + ' items involved' +
+                            (conflict.range ? ' · <a style="color: #fca5a5; text-decoration: underline;" data-id="' + conflictId + '" onclick="event.stopPropagation(); openConflictSource(this.dataset.id)">line ' + conflict.range.startLine + '</a>' : '') +
+                        '</div>' +
                     '</div>';
                 }).join('');
             } else {
                 conflictsList.innerHTML = '<div style="color: #9ca3af; font-size: 12px; text-align: center;">No conflicts detected</div>';
             }
+
+            // Update orphans, grouped by kind
+            const orphanLabels = {
+                'unread-state': 'State never read',
+                'uncalled-setter': 'Setters never called',
+                'unpassed-prop': 'Props never passed',
+                'undeclared-prop': 'Props passed but not declared',
+                'unrendered-component': 'Components never rendered'
+            };
+
+            if (data.orphans && data.orphans.length > 0) {
+                orphansList.innerHTML = Object.keys(orphanLabels).map(function(type) {
+                    const ofType = data.orphans.filter(function(orphan) { return orphan.type === type; });
+                    if (ofType.length === 0) return '';
+                    return '<div class="flow-item">' +
+                        '<div class="flow-name">' + orphanLabels[type] + ' (' + ofType.length + ')</div>' +
+                        ofType.map(function(orphan) {
+                            return '<div class="flow-description">' + escapeHtml(orphan.description) + '</div>';
+                        }).join('') +
+                    '</div>';
+                }).join('');
+            } else {
+                orphansList.innerHTML = '<div style="color: #9ca3af; font-size: 12px; text-align: center;">No orphans detected</div>';
+            }
+
+            // Update contexts: createContext → Providers → consumers
+            if (data.contexts && data.contexts.length > 0) {
+                contextsList.innerHTML = data.contexts.map(function(context) {
+                    const flowId = context.name + '-context';
+                    return '<div class="flow-item ' + (selectedFlow === flowId ? 'selected' : '') + '" data-id="' + escapeHtml(flowId) + '" onclick="selectFlow(this.dataset.id)">' +
+                        '<div class="flow-header">' +
+                            '<div class="flow-color" style="background: #ec4899;"></div>' +
+                            '<div class="flow-name">' + escapeHtml(context.name) + '</div>' +
+                        '</div>' +
+                        '<div class="flow-description">' + context.providers.length + ' providers, ' + context.consumers.length + ' consumers' +
+                            (context.defaultValue !== undefined ? '<br>default: ' + escapeHtml(context.defaultValue) : '') +
+                        '</div>' +
+                    '</div>';
+                }).join('');
+            } else {
+                contextsList.innerHTML = '<div style="color: #9ca3af; font-size: 12px; text-align: center;">No contexts detected</div>';
+            }
+
+            // Update stores: slices and actions, and the components using them
+            if (data.stores && data.stores.length > 0) {
+                storesList.innerHTML = data.stores.map(function(store) {
+                    const flowId = store.name + '-store';
+                    return '<div class="flow-item ' + (selectedFlow === flowId ? 'selected' : '') + '" data-id="' + escapeHtml(flowId) + '" onclick="selectFlow(this.dataset.id)">' +
+                        '<div class="flow-header">' +
+                            '<div class="flow-color" style="background: #facc15;"></div>' +
+                            '<div class="flow-name">' + escapeHtml(store.name) + ' (' + store.library + ')</div>' +
+                        '</div>' +
+                        '<div class="flow-description">' + store.slices.length + ' slices, ' + store.actions.length + ' actions<br>' +
+                            store.readers.length + ' reads, ' + store.writers.length + ' writes' +
+                        '</div>' +
+                    '</div>';
+                }).join('');
+            } else {
+                storesList.innerHTML = '<div style="color: #9ca3af; font-size: 12px; text-align: center;">No stores detected</div>';
+            }
+
+            // Update routes: path, component and layouts; clicking expands the route
+            if (data.routes && data.routes.length > 0) {
+                const labels = {};
+                data.components.forEach(function(component) { labels[component.id] = component.label || component.name; });
+                routesList.innerHTML = data.routes.map(function(route) {
+                    const routeId = escapeHtml(route.id);
+                    return '<div class="flow-item ' + (expandedRoutes[route.id] ? 'selected' : '') + '" data-id="' + routeId + '" onclick="toggleRoute(this.dataset.id)">' +
+                        '<div class="flow-header">' +
+                            '<div class="flow-color" style="background: #fbbf24;"></div>' +
+                            '<div class="flow-name">' + escapeHtml(route.path) + '</div>' +
+                        '</div>' +
+                        '<div class="flow-description">' + escapeHtml(labels[route.component] || 'unresolved component') +
+                            (route.layouts.length > 0 ? '<br>in ' + escapeHtml(route.layouts.map(function(id) { return labels[id] || id; }).join(' > ')) : '') +
+                            (route.loading ? '<br>loading: ' + escapeHtml(labels[route.loading] || route.loading) : '') +
+                        '</div>' +
+                    '</div>';
+                }).join('');
+            } else {
+                routesList.innerHTML = '<div style="color: #9ca3af; font-size: 12px; text-align: center;">No routes detected</div>';
+            }
+
+            // Update props: required first, then optional
+            const componentsWithProps = data.components.filter(function(component) {
+                return component.items.some(function(item) { return item.type === 'prop' || item.type === 'prop-function'; });
+            });
+
+            if (componentsWithProps.length > 0) {
+                propsList.innerHTML = componentsWithProps.map(function(component) {
+                    const props = component.items.filter(function(item) { return item.type === 'prop' || item.type === 'prop-function'; });
+                    const required = props.filter(function(item) { return !item.optional; });
+                    const optional = props.filter(function(item) { return item.optional; });
+                    const describe = function(item) {
+                        return '<div style="font-family: monospace; font-size: 10px; color: ' + (item.optional ? '#d1d5db' : '#fbbf24') + ';">' +
+                            escapeHtml(item.name + (item.optional ? '?' : '') + (item.valueType ? ': ' + item.valueType : '') +
+                                (item.defaultValue !== undefined ? ' = ' + item.defaultValue : '')) +
+                        '</div>';
+                    };
+                    return '<div class="flow-item">' +
+                        '<div class="flow-name">' + escapeHtml(component.label || component.name) + '</div>' +
+                        (required.length > 0 ? '<div class="flow-description">Required</div>' + required.map(describe).join('') : '') +
+                        (optional.length > 0 ? '<div class="flow-description">Optional</div>' + optional.map(describe).join('') : '') +
+                    '</div>';
+                }).join('');
+            } else {
+                propsList.innerHTML = '<div style="color: #9ca3af; font-size: 12px; text-align: center;">No props detected</div>';
+            }
+        }
+
+        function escapeHtml(text) {
+            return String(text)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
         }
 
         function selectFlow(flowId) {
             selectedFlow = selectedFlow === flowId ? null : flowId;
+            selectedConflict = null;
             if (currentData) {
+                renderRenderEdges(currentData.renderEdges || []);
                 renderComponents(currentData.components);
                 renderFlows(currentData.flows);
                 updateSidebar(currentData);
             }
         }
 
+        // Highlights every item of a conflict, e.g. the whole chain of a drilled prop
+        function selectConflict(conflictId) {
+            selectedConflict = selectedConflict === conflictId ? null : conflictId;
+            selectedFlow = null;
+            if (currentData) {
+                renderRenderEdges(currentData.renderEdges || []);
+                renderComponents(currentData.components);
+                renderFlows(currentData.flows);
+                updateSidebar(currentData);
+            }
+        }
+
+        // Jumps to where a conflict was found
+        function openConflictSource(conflictId) {
+            const conflict = currentData && currentData.conflicts.find(function(c) { return c.id === conflictId; });
+            if (conflict && conflict.range) {
+                vscode.postMessage({
+                    command: 'openFile',
+                    filePath: conflict.range.filePath,
+                    range: conflict.range
+                });
+            }
+        }
+
+        // Styles inlined into the exported SVG, which has no stylesheet
+        const EXPORTED_STYLES = ['fill', 'stroke', 'stroke-width', 'stroke-dasharray', 'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor'];
+
+        // The diagram as shown, for the export command: standalone SVG sized to its
+        // content, the components drawn, and the flows neither hidden nor dimmed
+        function exportDiagram() {
+            if (!svg || !currentData) {
+                return { svg: '', components: [], flows: [] };
+            }
+
+            const source = svg.node();
+            const copy = source.cloneNode(true);
+            const copies = copy.querySelectorAll('*');
+            source.querySelectorAll('*').forEach(function(element, index) {
+                const computed = window.getComputedStyle(element);
+                copies[index].setAttribute('style', EXPORTED_STYLES.map(function(name) {
+                    return name + ': ' + computed.getPropertyValue(name);
+                }).join('; '));
+            });
+            const box = source.getBBox();
+            const margin = 20;
+            copy.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+            copy.setAttribute('width', box.width + 2 * margin);
+            copy.setAttribute('height', box.height + 2 * margin);
+            copy.setAttribute('viewBox', (box.x - margin) + ' ' + (box.y - margin) + ' ' + (box.width + 2 * margin) + ' ' + (box.height + 2 * margin));
+            copy.setAttribute('style', 'background: #1f2937; font-family: ' + window.getComputedStyle(document.body).getPropertyValue('font-family'));
+
+            const shown = {};
+            const components = currentData.components.filter(function(component) { return !component.hidden; }).map(function(component) {
+                component.items.forEach(function(item) { shown[item.id] = true; });
+                return component.id;
+            });
+            const flows = currentData.flows.filter(function(flow) {
+                return shown[flow.fromItem] && shown[flow.toItem] && !isFlowDimmed(flow);
+            }).map(function(flow) { return flow.fromItem + '->' + flow.toItem; });
+
+            return {
+                svg: new XMLSerializer().serializeToString(copy),
+                components: components,
+                flows: flows
+            };
+        }
+
+        // The sidebar's inline onclick handlers run outside this IIFE
+        window.selectFlow = selectFlow;
+        window.selectConflict = selectConflict;
+        window.openConflictSource = openConflictSource;
+        window.setLayoutMode = setLayoutMode;
+        window.toggleRoute = toggleRoute;
+
+        function getSelectedConflict() {
+            if (!selectedConflict || !currentData || !currentData.conflicts) {
+                return null;
+            }
+            return currentData.conflicts.find(function(conflict) { return conflict.id === selectedConflict; }) || null;
+        }
+
+        function isConflictItem(itemId) {
+            const conflict = getSelectedConflict();
+            return !!conflict && conflict.items.includes(itemId);
+        }
+
+        function isFlowDimmed(flow) {
+            const conflict = getSelectedConflict();
+            if (conflict) {
+                const fromIndex = conflict.items.indexOf(flow.fromItem);
+                return fromIndex === -1 || conflict.items[fromIndex + 1] !== flow.toItem;
+            }
+            return !!selectedFlow && selectedFlow !== flow.id;
+        }
+
         function getFlowColor(flowId) {
             const colors = {
                 'user-flow': '#3b82f6',
@@ -796,6 +1553,9 @@ export class VisualizerPanel {
                     console.log('Received data:', message.data);
                     updateVisualization(message.data);
                     break;
+                case 'exportDiagram':
+                    vscode.postMessage(Object.assign({ command: 'diagramExported' }, exportDiagram()));
+                    break;
             }
         });
 
@@ -0,0 +1,64 @@
+import {Worker} from 'worker_threads';
+
+// Runs tasks on a fixed number of worker threads started from script, handing
+// each worker the next task as soon as it posts back the result of its last one
+export class WorkerPool < Task,
+Result > {
+  constructor(private readonly script : string, private readonly size : number, private readonly workerData?: unknown) {}
+
+  run(tasks : Task[]) : Promise < Result[] > {
+    return new Promise((resolve, reject) => {
+      if (tasks.length === 0) {
+        resolve([]);
+        return;
+      }
+
+      const results : Result[] = new Array(tasks.length);
+      const workers : Worker[] = [];
+      let next = 0;
+      let done = 0;
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled)
+          return;
+        settled = true;
+        workers.forEach(worker => worker.terminate());
+        if (error) {
+          reject(error);
+        } else {
+          resolve(results);
+        }
+      };
+
+      for (let i = 0; i < Math.min(this.size, tasks.length); i++) {
+        const worker = new Worker(this.script, {workerData: this.workerData});
+        workers.push(worker);
+        let current = -1;
+        const dispatch = () => {
+          if (next < tasks.length) {
+            current = next++;
+            worker.postMessage(tasks[current]);
+          }
+        };
+
+        worker.on('message', (result : Result) => {
+          results[current] = result;
+          done++;
+          if (done === tasks.length) {
+            finish();
+          } else {
+            dispatch();
+          }
+        });
+        worker.on('error', finish);
+        worker.on('exit', code => {
+          if (code !== 0) {
+            finish(new Error(`Worker stopped with exit code ${code}`));
+          }
+        });
+        dispatch();
+      }
+    });
+  }
+}